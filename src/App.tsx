@@ -1,7 +1,9 @@
 import DesignEditor from './components/DesignEditor'
+import { useRoute } from './hooks/useRoute'
 
 function App() {
-  return <DesignEditor />;
+  const { route, navigate } = useRoute();
+  return <DesignEditor route={route} onNavigate={navigate} />;
 }
 
 export default App
@@ -0,0 +1,116 @@
+import {
+  ANIMATION_EFFECTS,
+  SLIDE_DIRECTIONS,
+  createAnimation,
+  type AnimationEffect,
+  type AnimationPhase,
+  type LayerAnimation,
+} from '../lib/animation';
+import type { Layer, LayerUpdate } from '../lib/layers';
+
+interface AnimationControlsProps {
+  layer: Layer;
+  // Length of the timeline in seconds, which bounds each effect's start.
+  timelineDuration: number;
+  onChange: (updates: LayerUpdate, coalesceKey?: string) => void;
+}
+
+const PHASES: { phase: AnimationPhase; label: string }[] = [
+  { phase: 'entrance', label: 'Entrance' },
+  { phase: 'exit', label: 'Exit' },
+];
+
+const seconds = (value: number) => `${value.toFixed(1)}s`;
+
+export default function AnimationControls({ layer, timelineDuration, onChange }: AnimationControlsProps) {
+  const effects = ANIMATION_EFFECTS.filter(({ textOnly }) => !textOnly || layer.type === 'text');
+
+  const setAnimation = (phase: AnimationPhase, animation: LayerAnimation | null, coalesceKey?: string) =>
+    onChange(phase === 'entrance' ? { entrance: animation } : { exit: animation }, coalesceKey);
+
+  const selectEffect = (phase: AnimationPhase, current: LayerAnimation | null, effect: AnimationEffect | null) =>
+    setAnimation(phase, effect && (current ? { ...current, effect } : createAnimation(phase, effect, timelineDuration)));
+
+  return (
+    <div className="space-y-4">
+      {PHASES.map(({ phase, label }) => {
+        const animation = layer[phase];
+        const id = `animation-${phase}`;
+        return (
+          <div key={phase} className="space-y-3">
+            <label className="block text-sm font-medium text-gray-300" htmlFor={`${id}-effect`}>
+              {label} Animation
+            </label>
+            <select
+              id={`${id}-effect`}
+              value={animation?.effect ?? ''}
+              onChange={(e) => selectEffect(phase, animation, (e.target.value || null) as AnimationEffect | null)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-white"
+            >
+              <option value="">None</option>
+              {effects.map(({ effect, label: effectLabel }) => (
+                <option key={effect} value={effect}>{effectLabel}</option>
+              ))}
+            </select>
+
+            {animation?.effect === 'slide' && (
+              <div className="grid grid-cols-4 gap-1" role="group" aria-label={`${label} slide direction`}>
+                {SLIDE_DIRECTIONS.map(direction => (
+                  <button
+                    key={direction}
+                    onClick={() => setAnimation(phase, { ...animation, direction })}
+                    aria-pressed={animation.direction === direction}
+                    className={`px-2 py-1 rounded text-sm ${
+                      animation.direction === direction
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                    }`}
+                  >
+                    {direction.charAt(0).toUpperCase() + direction.slice(1)}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {animation && (
+              <>
+                <div>
+                  <label className="flex justify-between text-sm text-gray-300 mb-1" htmlFor={`${id}-delay`}>
+                    <span>Starts at</span>
+                    <span className="text-gray-400">{seconds(animation.delay)}</span>
+                  </label>
+                  <input
+                    id={`${id}-delay`}
+                    type="range"
+                    min={0}
+                    max={timelineDuration}
+                    step={0.1}
+                    value={Math.min(animation.delay, timelineDuration)}
+                    onChange={(e) => setAnimation(phase, { ...animation, delay: Number(e.target.value) }, `${phase}Delay:${layer.id}`)}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="flex justify-between text-sm text-gray-300 mb-1" htmlFor={`${id}-duration`}>
+                    <span>Duration</span>
+                    <span className="text-gray-400">{seconds(animation.duration)}</span>
+                  </label>
+                  <input
+                    id={`${id}-duration`}
+                    type="range"
+                    min={0.1}
+                    max={Math.max(0.1, timelineDuration)}
+                    step={0.1}
+                    value={animation.duration}
+                    onChange={(e) => setAnimation(phase, { ...animation, duration: Number(e.target.value) }, `${phase}Duration:${layer.id}`)}
+                    className="w-full"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import { getSceneAtTime } from '../lib/animation';
+import { loadRenderResources, releaseRenderResources } from '../lib/exportImage';
+import { renderScene, type RenderResources, type RenderScene } from '../lib/renderer';
+
+interface AnimationPreviewProps {
+  scene: RenderScene;
+  // Called once the timeline has played through, or playback has failed.
+  onEnd: () => void;
+  // Called with a message when the scene's images or fonts can't be loaded.
+  onError: (message: string) => void;
+}
+
+// Plays the page's timeline over the stage with the same renderer exports use, so the preview
+// matches the exported file frame for frame.
+export default function AnimationPreview({ scene, onEnd, onError }: AnimationPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let resources: RenderResources | null = null;
+    let frame = 0;
+    let cancelled = false;
+
+    loadRenderResources(scene).then(loaded => {
+      if (cancelled) {
+        releaseRenderResources(loaded);
+        return;
+      }
+      resources = loaded;
+      const start = performance.now();
+      const draw = (now: number) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        const time = Math.min(scene.duration, (now - start) / 1000);
+        if (ctx && resources) {
+          ctx.clearRect(0, 0, scene.canvas.width, scene.canvas.height);
+          renderScene(ctx, getSceneAtTime(scene, time), resources, { scale: 1, transparent: false });
+        }
+        if (time < scene.duration) frame = requestAnimationFrame(draw);
+        else onEnd();
+      };
+      frame = requestAnimationFrame(draw);
+    }).catch(err => {
+      if (cancelled) return;
+      console.error('Error playing animation:', err);
+      onError(err instanceof Error ? err.message : 'Could not play the animation');
+      onEnd();
+    });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      if (resources) releaseRenderResources(resources);
+    };
+  }, [scene, onEnd, onError]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      data-editor-only="true"
+      width={scene.canvas.width}
+      height={scene.canvas.height}
+      className="absolute inset-0 pointer-events-none"
+    />
+  );
+}
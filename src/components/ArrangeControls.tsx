@@ -0,0 +1,84 @@
+import type { Alignment } from '../lib/geometry';
+
+interface ArrangeControlsProps {
+  // Layers and groups that move independently; a single one aligns to the canvas.
+  unitCount: number;
+  canGroup: boolean;
+  canUngroup: boolean;
+  onAlign: (alignment: Alignment) => void;
+  onDistribute: (axis: 'horizontal' | 'vertical') => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+}
+
+const ALIGNMENTS: { alignment: Alignment; label: string }[] = [
+  { alignment: 'left', label: 'Left' },
+  { alignment: 'center', label: 'Center' },
+  { alignment: 'right', label: 'Right' },
+  { alignment: 'top', label: 'Top' },
+  { alignment: 'middle', label: 'Middle' },
+  { alignment: 'bottom', label: 'Bottom' },
+];
+
+const BUTTON_CLASS =
+  'px-3 py-2 text-sm rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-gray-700 disabled:cursor-not-allowed';
+
+export default function ArrangeControls({
+  unitCount,
+  canGroup,
+  canUngroup,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onUngroup,
+}: ArrangeControlsProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          {unitCount > 1 ? 'Align' : 'Align to Canvas'}
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {ALIGNMENTS.map(({ alignment, label }) => (
+            <button key={alignment} onClick={() => onAlign(alignment)} className={BUTTON_CLASS}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Distribute Evenly
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onDistribute('horizontal')}
+            disabled={unitCount < 3}
+            className={BUTTON_CLASS}
+            title="Needs three or more layers"
+          >
+            Horizontally
+          </button>
+          <button
+            onClick={() => onDistribute('vertical')}
+            disabled={unitCount < 3}
+            className={BUTTON_CLASS}
+            title="Needs three or more layers"
+          >
+            Vertically
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onGroup} disabled={!canGroup} className={BUTTON_CLASS} title="Group (Ctrl+G)">
+          Group
+        </button>
+        <button onClick={onUngroup} disabled={!canUngroup} className={BUTTON_CLASS} title="Ungroup (Ctrl+Shift+G)">
+          Ungroup
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import {
+  BACKGROUND_FILL_TYPES,
+  BACKGROUND_FITS,
+  DEFAULT_IMAGE_SETTINGS,
+  changeFillType,
+  type Background,
+  type BackgroundImageSettings,
+} from '../lib/background';
+
+interface BackgroundControlsProps {
+  background: Background;
+  hasImage: boolean;
+  onChange: (background: Background, coalesceKey?: string) => void;
+  onImageUpload: (file: File) => void;
+  onImageRemove: () => void;
+}
+
+interface SliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+function Slider({ id, label, value, min, max, step = 1, format, onChange }: SliderProps) {
+  return (
+    <div>
+      <label className="flex justify-between text-sm font-medium text-gray-300 mb-2" htmlFor={id}>
+        <span>{label}</span>
+        <span className="text-gray-400">{format(value)}</span>
+      </label>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+const percent = (value: number) => `${Math.round(value)}%`;
+
+export default function BackgroundControls({
+  background,
+  hasImage,
+  onChange,
+  onImageUpload,
+  onImageRemove,
+}: BackgroundControlsProps) {
+  const { fill, image } = background;
+
+  const updateImage = (updates: Partial<BackgroundImageSettings>, coalesceKey?: string) =>
+    onChange({ ...background, image: { ...image, ...updates } }, coalesceKey);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImageUpload(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="text-sm font-medium text-gray-300">
+            Background Image
+          </label>
+          {hasImage && (
+            <button onClick={onImageRemove} className="text-xs text-red-400 hover:text-red-300">
+              Remove
+            </button>
+          )}
+        </div>
+        <input
+          type="file"
+          accept="image/*"
+          onChange={handleUpload}
+          className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+          aria-label="Upload template image"
+          title="Upload template image"
+        />
+      </div>
+
+      {hasImage && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Image Fit
+            </label>
+            <div className="flex space-x-2">
+              {BACKGROUND_FITS.map(fit => (
+                <button
+                  key={fit}
+                  onClick={() => updateImage({ fit })}
+                  className={`px-4 py-2 rounded ${
+                    image.fit === fit
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                  }`}
+                >
+                  {fit.charAt(0).toUpperCase() + fit.slice(1)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Slider
+            id="background-zoom"
+            label="Zoom"
+            value={image.zoom * 100}
+            min={100}
+            max={400}
+            format={percent}
+            onChange={(value) => updateImage({ zoom: value / 100 }, 'background:zoom')}
+          />
+          <Slider
+            id="background-offset-x"
+            label="Pan Horizontally"
+            value={image.offsetX}
+            min={-50}
+            max={50}
+            format={percent}
+            onChange={(offsetX) => updateImage({ offsetX }, 'background:offsetX')}
+          />
+          <Slider
+            id="background-offset-y"
+            label="Pan Vertically"
+            value={image.offsetY}
+            min={-50}
+            max={50}
+            format={percent}
+            onChange={(offsetY) => updateImage({ offsetY }, 'background:offsetY')}
+          />
+          <Slider
+            id="background-brightness"
+            label="Brightness"
+            value={image.brightness}
+            min={0}
+            max={200}
+            format={percent}
+            onChange={(brightness) => updateImage({ brightness }, 'background:brightness')}
+          />
+          <Slider
+            id="background-contrast"
+            label="Contrast"
+            value={image.contrast}
+            min={0}
+            max={200}
+            format={percent}
+            onChange={(contrast) => updateImage({ contrast }, 'background:contrast')}
+          />
+          <Slider
+            id="background-blur"
+            label="Blur"
+            value={image.blur}
+            min={0}
+            max={20}
+            format={(value) => `${value}px`}
+            onChange={(blur) => updateImage({ blur }, 'background:blur')}
+          />
+          <Slider
+            id="background-overlay"
+            label="Darken"
+            value={image.overlay * 100}
+            min={0}
+            max={80}
+            format={percent}
+            onChange={(value) => updateImage({ overlay: value / 100 }, 'background:overlay')}
+          />
+          <button
+            onClick={() => onChange({ ...background, image: DEFAULT_IMAGE_SETTINGS })}
+            className="text-sm text-blue-400 hover:text-blue-300"
+          >
+            Reset adjustments
+          </button>
+        </>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          {hasImage ? 'Fill Behind Image' : 'Background Fill'}
+        </label>
+        <div className="flex space-x-2">
+          {BACKGROUND_FILL_TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => onChange({ ...background, fill: changeFillType(fill, type) })}
+              className={`px-4 py-2 rounded ${
+                fill.type === type
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {fill.type === 'solid' ? (
+        <input
+          type="color"
+          value={fill.color}
+          onChange={(e) => onChange({ ...background, fill: { ...fill, color: e.target.value } }, 'background:color')}
+          className="h-8 w-full bg-gray-700 border border-gray-600 rounded cursor-pointer"
+          aria-label="Background color"
+        />
+      ) : (
+        <div className="flex space-x-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="background-from">
+              From
+            </label>
+            <input
+              id="background-from"
+              type="color"
+              value={fill.from}
+              onChange={(e) => onChange({ ...background, fill: { ...fill, from: e.target.value } }, 'background:from')}
+              className="h-8 w-full bg-gray-700 border border-gray-600 rounded cursor-pointer"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="background-to">
+              To
+            </label>
+            <input
+              id="background-to"
+              type="color"
+              value={fill.to}
+              onChange={(e) => onChange({ ...background, fill: { ...fill, to: e.target.value } }, 'background:to')}
+              className="h-8 w-full bg-gray-700 border border-gray-600 rounded cursor-pointer"
+            />
+          </div>
+        </div>
+      )}
+
+      {fill.type === 'linear' && (
+        <Slider
+          id="background-angle"
+          label="Angle"
+          value={fill.angle}
+          min={0}
+          max={360}
+          format={(value) => `${value}°`}
+          onChange={(angle) => onChange({ ...background, fill: { ...fill, angle } }, 'background:angle')}
+        />
+      )}
+    </div>
+  );
+}
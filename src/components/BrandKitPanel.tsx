@@ -0,0 +1,396 @@
+import { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  BRAND_TEXT_ROLES,
+  BrandKitParseError,
+  createBrandKit,
+  createBrandLogo,
+  parseBrandKit,
+  serializeBrandKit,
+  type BrandKit,
+  type BrandLogo,
+  type BrandTextRole,
+  type BrandTextStyle,
+} from '../lib/brandKits';
+import { downloadBlob, toSafeFileName } from '../lib/download';
+import { FONT_SIZES, FONT_WEIGHTS, getFontStack } from '../lib/fonts';
+
+interface BrandKitPanelProps {
+  kits: BrandKit[];
+  // Every font the editor offers, uploaded ones included.
+  fontFamilies: string[];
+  activeKit: BrandKit | null;
+  storageError: string | null;
+  onSelect: (id: string | null) => void;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (id: string) => void;
+  onInsertLogo: (logo: BrandLogo) => void;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const selectClassName = 'w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm';
+
+export default function BrandKitPanel({
+  kits,
+  fontFamilies,
+  activeKit,
+  storageError,
+  onSelect,
+  onSave,
+  onDelete,
+  onInsertLogo,
+}: BrandKitPanelProps) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleNewKit = () => {
+    const kit = createBrandKit(`Brand kit ${kits.length + 1}`);
+    onSave(kit);
+    onSelect(kit.id);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const kit = parseBrandKit(e.target?.result as string);
+        onSave(kit);
+        onSelect(kit.id);
+        setError(null);
+      } catch (err) {
+        console.error('Error importing brand kit:', err);
+        setError(err instanceof BrandKitParseError ? `Could not import ${file.name}: ${err.message}` : `Could not import ${file.name}`);
+      }
+    };
+    reader.onerror = () => setError(`Could not read ${file.name}`);
+    reader.readAsText(file);
+  };
+
+  const handleExport = (kit: BrandKit) => {
+    const blob = new Blob([serializeBrandKit(kit)], { type: 'application/json' });
+    downloadBlob(blob, `${toSafeFileName(kit.name) || 'brand-kit'}.json`);
+  };
+
+  const handleDelete = (kit: BrandKit) => {
+    if (!window.confirm(`Delete the "${kit.name}" brand kit? Designs that use its colors and fonts are not changed.`)) return;
+    onDelete(kit.id);
+  };
+
+  const handleLogoUpload = (kit: BrandKit, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const logo = createBrandLogo(file.name.replace(/\.[^.]+$/, ''), e.target?.result as string);
+      onSave({ ...kit, logos: [...kit.logos, logo] });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const updateTextStyle = (kit: BrandKit, role: BrandTextRole, updates: Partial<BrandTextStyle>) =>
+    onSave({ ...kit, textStyles: { ...kit.textStyles, [role]: { ...kit.textStyles[role], ...updates } } });
+
+  return (
+    <div className="bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium text-white">Brand Kit</h2>
+        <div className="flex items-center space-x-1 text-gray-400">
+          <button
+            onClick={handleNewKit}
+            className="p-2 rounded hover:text-white hover:bg-gray-700"
+            aria-label="New brand kit"
+            title="New brand kit"
+          >
+            <PlusIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="p-2 rounded hover:text-white hover:bg-gray-700"
+            aria-label="Import brand kit"
+            title="Import brand kit"
+          >
+            <ArrowUpTrayIcon className="w-5 h-5" />
+          </button>
+          {activeKit && (
+            <>
+              <button
+                onClick={() => handleExport(activeKit)}
+                className="p-2 rounded hover:text-white hover:bg-gray-700"
+                aria-label="Export brand kit"
+                title="Export brand kit"
+              >
+                <ArrowDownTrayIcon className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => handleDelete(activeKit)}
+                className="p-2 rounded hover:text-red-300 hover:bg-gray-700"
+                aria-label="Delete brand kit"
+                title="Delete brand kit"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+            aria-label="Import brand kit JSON"
+          />
+        </div>
+      </div>
+
+      <select
+        value={activeKit?.id ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-white"
+        aria-label="Active brand kit"
+      >
+        <option value="">No brand kit (all colors and fonts)</option>
+        {kits.map(kit => (
+          <option key={kit.id} value={kit.id}>{kit.name}</option>
+        ))}
+      </select>
+
+      {(error || storageError) && (
+        <div role="alert" className="px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+          {error ?? storageError}
+        </div>
+      )}
+
+      {activeKit && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="brand-kit-name">
+              Name
+            </label>
+            <input
+              id="brand-kit-name"
+              value={activeKit.name}
+              onChange={(e) => onSave({ ...activeKit, name: e.target.value })}
+              className="w-full px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium text-gray-300">Colors</label>
+              <button
+                onClick={() => onSave({
+                  ...activeKit,
+                  colors: [...activeKit.colors, { name: `Color ${activeKit.colors.length + 1}`, value: '#000000' }],
+                })}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                Add color
+              </button>
+            </div>
+            {activeKit.colors.length === 0 && (
+              <p className="text-xs text-gray-400">No colors yet. The text palette shows these while the kit is active.</p>
+            )}
+            <ul className="space-y-2">
+              {activeKit.colors.map((color, index) => {
+                const updateColor = (updates: Partial<typeof color>) => onSave({
+                  ...activeKit,
+                  colors: activeKit.colors.map((other, i) => (i === index ? { ...other, ...updates } : other)),
+                });
+                return (
+                  <li key={index} className="flex items-center space-x-2">
+                    <input
+                      type="color"
+                      value={HEX_COLOR.test(color.value) ? color.value : '#000000'}
+                      onChange={(e) => updateColor({ value: e.target.value })}
+                      className="h-8 w-8 shrink-0 bg-gray-700 border border-gray-600 rounded cursor-pointer"
+                      title={`${color.name} picker`}
+                    />
+                    <input
+                      value={color.name}
+                      onChange={(e) => updateColor({ name: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+                      aria-label="Color name"
+                    />
+                    <input
+                      value={color.value}
+                      onChange={(e) => updateColor({ value: e.target.value })}
+                      className="w-24 px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm font-mono"
+                      aria-label={`${color.name} value`}
+                    />
+                    <button
+                      onClick={() => onSave({ ...activeKit, colors: activeKit.colors.filter((_, i) => i !== index) })}
+                      className="p-1 text-gray-400 rounded hover:text-red-300 hover:bg-gray-700"
+                      aria-label={`Remove ${color.name}`}
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="brand-kit-add-font">
+              Fonts
+            </label>
+            {activeKit.fonts.length > 0 && (
+              <ul className="flex flex-wrap gap-2 mb-2">
+                {activeKit.fonts.map(font => (
+                  <li
+                    key={font}
+                    className="flex items-center pl-2 pr-1 py-1 bg-gray-700 rounded text-sm text-gray-200"
+                    style={{ fontFamily: getFontStack(font) }}
+                  >
+                    {font}
+                    <button
+                      onClick={() => onSave({ ...activeKit, fonts: activeKit.fonts.filter(other => other !== font) })}
+                      className="ml-1 p-0.5 text-gray-400 rounded hover:text-red-300"
+                      aria-label={`Remove ${font}`}
+                    >
+                      <XMarkIcon className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <select
+              id="brand-kit-add-font"
+              value=""
+              onChange={(e) => e.target.value && onSave({ ...activeKit, fonts: [...activeKit.fonts, e.target.value] })}
+              className={selectClassName}
+            >
+              <option value="">{activeKit.fonts.length === 0 ? 'All fonts allowed — add one to limit the list' : 'Add a font…'}</option>
+              {fontFamilies.filter(font => !activeKit.fonts.includes(font)).map(font => (
+                <option key={font} value={font}>{font}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Text Styles
+            </label>
+            <div className="space-y-3">
+              {BRAND_TEXT_ROLES.map(({ role, label }) => {
+                const style = activeKit.textStyles[role];
+                const fonts = activeKit.fonts.length > 0 ? activeKit.fonts : fontFamilies;
+                return (
+                  <div key={role} className="p-3 bg-gray-800 rounded-md space-y-2">
+                    <div
+                      className="truncate text-white"
+                      style={{ fontFamily: getFontStack(style.fontFamily), fontWeight: style.fontWeight, color: style.color }}
+                    >
+                      {label}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={style.fontFamily}
+                        onChange={(e) => updateTextStyle(activeKit, role, { fontFamily: e.target.value })}
+                        className={`col-span-2 ${selectClassName}`}
+                        aria-label={`${label} font`}
+                      >
+                        {!fonts.includes(style.fontFamily) && <option value={style.fontFamily}>{style.fontFamily}</option>}
+                        {fonts.map(font => (
+                          <option key={font} value={font}>{font}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={style.fontSize}
+                        onChange={(e) => updateTextStyle(activeKit, role, { fontSize: e.target.value })}
+                        className={selectClassName}
+                        aria-label={`${label} size`}
+                      >
+                        {!FONT_SIZES.includes(style.fontSize) && <option value={style.fontSize}>{style.fontSize}</option>}
+                        {FONT_SIZES.map(size => (
+                          <option key={size} value={size}>{size}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={style.fontWeight}
+                        onChange={(e) => updateTextStyle(activeKit, role, { fontWeight: e.target.value })}
+                        className={selectClassName}
+                        aria-label={`${label} weight`}
+                      >
+                        {FONT_WEIGHTS.map(weight => (
+                          <option key={weight} value={weight}>{weight}</option>
+                        ))}
+                      </select>
+                      <div className="col-span-2 flex space-x-2">
+                        <input
+                          value={style.color}
+                          onChange={(e) => updateTextStyle(activeKit, role, { color: e.target.value })}
+                          className="flex-1 min-w-0 px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+                          aria-label={`${label} color`}
+                        />
+                        <input
+                          type="color"
+                          value={HEX_COLOR.test(style.color) ? style.color : '#000000'}
+                          onChange={(e) => updateTextStyle(activeKit, role, { color: e.target.value })}
+                          className="h-8 w-8 bg-gray-700 border border-gray-600 rounded cursor-pointer"
+                          title={`${label} color picker`}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium text-gray-300">Logos</label>
+              <button
+                onClick={() => logoInputRef.current?.click()}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                Upload logo
+              </button>
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/*"
+                onChange={(e) => handleLogoUpload(activeKit, e)}
+                className="hidden"
+                aria-label="Upload logo"
+              />
+            </div>
+            {activeKit.logos.length === 0 ? (
+              <p className="text-xs text-gray-400">Logos added here can be placed on any design with one click.</p>
+            ) : (
+              <ul className="grid grid-cols-4 gap-2">
+                {activeKit.logos.map(logo => (
+                  <li key={logo.id} className="relative group">
+                    <button
+                      onClick={() => onInsertLogo(logo)}
+                      className="w-full aspect-square flex items-center justify-center p-1 bg-gray-800 border border-gray-600 rounded hover:border-blue-500"
+                      title={`Add ${logo.name} to the design`}
+                    >
+                      <img src={logo.src} alt={logo.name} className="max-w-full max-h-full object-contain" />
+                    </button>
+                    <button
+                      onClick={() => onSave({ ...activeKit, logos: activeKit.logos.filter(other => other.id !== logo.id) })}
+                      className="absolute -top-1 -right-1 opacity-0 group-hover:opacity-100 focus:opacity-100 p-0.5 bg-gray-900 text-gray-300 rounded-full hover:text-red-300"
+                      aria-label={`Remove ${logo.name}`}
+                    >
+                      <XMarkIcon className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { parseCsv, type CsvTable } from '../lib/csv';
+import { buildFileNames } from '../lib/placeholders';
+
+interface BulkGeneratePanelProps {
+  // Column names used as {{placeholders}} in the design's text layers.
+  placeholders: string[];
+  previewRow: Record<string, string> | null;
+  onPreviewRow: (row: Record<string, string> | null) => void;
+  onExport: (rows: Record<string, string>[], fileNames: string[], onProgress: (done: number) => void) => Promise<void>;
+}
+
+export default function BulkGeneratePanel({ placeholders, previewRow, onPreviewRow, onExport }: BulkGeneratePanelProps) {
+  const [source, setSource] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [fileNameColumn, setFileNameColumn] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTable = (text: string) => {
+    setSource(text);
+    const parsed = parseCsv(text);
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      setTable(null);
+      setError(text.trim() ? 'Add a header row with column names and at least one data row.' : null);
+      onPreviewRow(null);
+      return;
+    }
+    setTable(parsed);
+    setError(null);
+    setFileNameColumn(column => (column && parsed.headers.includes(column) ? column : parsed.headers[0]));
+    onPreviewRow(null);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => loadTable(e.target?.result as string);
+    reader.onerror = () => setError(`Could not read ${file.name}`);
+    reader.readAsText(file);
+  };
+
+  const handleExport = async () => {
+    if (!table) return;
+    setProgress(0);
+    setError(null);
+    try {
+      await onExport(table.rows, buildFileNames(table.rows, fileNameColumn, 'png'), setProgress);
+    } catch (err) {
+      console.error('Error generating images:', err);
+      setError('Some images could not be generated. Check the console for details.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const missingColumns = table ? placeholders.filter(name => !table.headers.includes(name)) : [];
+
+  return (
+    <div className="bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700 space-y-4">
+      <div>
+        <h2 className="text-lg font-medium text-white">Bulk Generate</h2>
+        <p className="mt-1 text-sm text-gray-400">
+          Use <code className="text-gray-200">{'{{column}}'}</code> in text layers, then load a CSV to render one image per row.
+        </p>
+      </div>
+
+      {placeholders.length > 0 && (
+        <p className="text-xs text-gray-400">
+          Placeholders in this design: {placeholders.map(name => `{{${name}}}`).join(', ')}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="file"
+          accept=".csv,.tsv,text/csv,text/tab-separated-values"
+          onChange={handleFileUpload}
+          className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+          aria-label="Upload CSV file"
+          title="Upload CSV file"
+        />
+        <textarea
+          value={source}
+          onChange={(e) => loadTable(e.target.value)}
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm font-mono placeholder-gray-400"
+          rows={4}
+          placeholder={'…or paste rows here\ntitle,price\nSummer Sale,$19'}
+          aria-label="CSV rows"
+        />
+      </div>
+
+      {error && (
+        <div role="alert" className="px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {table && (
+        <>
+          {missingColumns.length > 0 && (
+            <div className="px-3 py-2 text-sm text-yellow-200 bg-yellow-900/40 border border-yellow-700 rounded-md">
+              No column for {missingColumns.map(name => `{{${name}}}`).join(', ')}; those placeholders will be left as-is.
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="bulk-file-name-column">
+              File names from column
+            </label>
+            <select
+              id="bulk-file-name-column"
+              value={fileNameColumn ?? ''}
+              onChange={(e) => setFileNameColumn(e.target.value || null)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-white"
+            >
+              <option value="">Row number</option>
+              {table.headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="max-h-60 overflow-auto border border-gray-600 rounded-md">
+            <table className="w-full text-sm text-left text-gray-200">
+              <thead className="sticky top-0 bg-gray-800 text-xs text-gray-400">
+                <tr>
+                  <th className="px-3 py-2">#</th>
+                  {table.headers.map(header => (
+                    <th key={header} className="px-3 py-2 whitespace-nowrap">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.map((row, index) => (
+                  <tr
+                    key={index}
+                    onClick={() => onPreviewRow(previewRow === row ? null : row)}
+                    className={`cursor-pointer border-t border-gray-700 ${
+                      previewRow === row ? 'bg-blue-600/30' : 'hover:bg-gray-700'
+                    }`}
+                    title="Preview this row on the canvas"
+                  >
+                    <td className="px-3 py-2 text-gray-400">{index + 1}</td>
+                    {table.headers.map(header => (
+                      <td key={header} className="px-3 py-2 whitespace-nowrap">{row[header]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={progress !== null}
+            className="w-full flex items-center justify-center px-4 py-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
+            {progress === null
+              ? `Download ${table.rows.length} images as ZIP`
+              : `Rendering ${progress} of ${table.rows.length}…`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { getFillCss, getImageStyle, type Background } from '../lib/background';
+
+interface CanvasBackgroundProps {
+  background: Background;
+  template?: string;
+}
+
+export default function CanvasBackground({ background, template }: CanvasBackgroundProps) {
+  return (
+    <>
+      <div data-background-fill="true" className="absolute inset-0" style={{ background: getFillCss(background.fill) }} />
+      {template && (
+        <div className="absolute inset-0 overflow-hidden">
+          <img
+            src={template}
+            alt="Template"
+            draggable={false}
+            className="absolute inset-0 w-full h-full"
+            style={getImageStyle(background.image)}
+          />
+          {background.image.overlay > 0 && (
+            <div className="absolute inset-0 bg-black" style={{ opacity: background.image.overlay }} />
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import {
+  CANVAS_FORMATS,
+  MAX_CANVAS_DIMENSION,
+  MIN_CANVAS_DIMENSION,
+  clampCanvasDimension,
+  findCanvasFormat,
+  type CanvasSize,
+} from '../lib/canvasFormats';
+
+interface CanvasFormatPickerProps {
+  size: CanvasSize;
+  onChange: (size: CanvasSize) => void;
+}
+
+const CUSTOM_FORMAT = 'custom';
+
+export default function CanvasFormatPicker({ size, onChange }: CanvasFormatPickerProps) {
+  const preset = findCanvasFormat(size);
+  const [isCustom, setIsCustom] = useState(!preset);
+  const [width, setWidth] = useState(String(size.width));
+  const [height, setHeight] = useState(String(size.height));
+
+  // Keep the inputs in sync when the size changes from outside (undo, opening a design).
+  useEffect(() => {
+    setWidth(String(size.width));
+    setHeight(String(size.height));
+    if (!findCanvasFormat(size)) setIsCustom(true);
+  }, [size]);
+
+  const handlePresetChange = (value: string) => {
+    if (value === CUSTOM_FORMAT) {
+      setIsCustom(true);
+      return;
+    }
+    const format = CANVAS_FORMATS.find(f => f.id === value);
+    if (format) {
+      setIsCustom(false);
+      onChange({ width: format.width, height: format.height });
+    }
+  };
+
+  const applyCustomSize = () => {
+    const w = Number(width);
+    const h = Number(height);
+    if (!Number.isFinite(w) || !Number.isFinite(h) || w <= 0 || h <= 0) {
+      setWidth(String(size.width));
+      setHeight(String(size.height));
+      return;
+    }
+    const next = { width: clampCanvasDimension(w), height: clampCanvasDimension(h) };
+    setWidth(String(next.width));
+    setHeight(String(next.height));
+    if (next.width !== size.width || next.height !== size.height) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="canvas-format">
+        Canvas Format
+      </label>
+      <select
+        id="canvas-format"
+        value={isCustom || !preset ? CUSTOM_FORMAT : preset.id}
+        onChange={(e) => handlePresetChange(e.target.value)}
+        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-white"
+      >
+        {CANVAS_FORMATS.map(format => (
+          <option key={format.id} value={format.id}>
+            {format.name} ({format.width}×{format.height})
+          </option>
+        ))}
+        <option value={CUSTOM_FORMAT}>Custom size</option>
+      </select>
+      {(isCustom || !preset) && (
+        <div className="mt-2 flex items-center space-x-2">
+          <input
+            type="number"
+            min={MIN_CANVAS_DIMENSION}
+            max={MAX_CANVAS_DIMENSION}
+            value={width}
+            onChange={(e) => setWidth(e.target.value)}
+            onBlur={applyCustomSize}
+            onKeyDown={(e) => e.key === 'Enter' && applyCustomSize()}
+            className="w-full px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+            aria-label="Canvas width in pixels"
+          />
+          <span className="text-gray-400 text-sm">×</span>
+          <input
+            type="number"
+            min={MIN_CANVAS_DIMENSION}
+            max={MAX_CANVAS_DIMENSION}
+            value={height}
+            onChange={(e) => setHeight(e.target.value)}
+            onBlur={applyCustomSize}
+            onKeyDown={(e) => e.key === 'Enter' && applyCustomSize()}
+            className="w-full px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+            aria-label="Canvas height in pixels"
+          />
+          <span className="text-gray-400 text-sm">px</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useRef } from 'react';
+import { getFontStack } from '../lib/fonts';
+import { getLayerLabel, getTextGradientCss, isTextBoxed, type Layer, type TextLayer } from '../lib/layers';
+import { useFittedFontSize } from '../hooks/useFittedFontSize';
+
+interface CanvasLayerProps {
+  layer: Layer;
+  isSelected?: boolean;
+  onPointerDown?: (e: React.PointerEvent, layerId: string) => void;
+  // Keyboard selection: focusing the layer picks it, and Shift+Enter adds it to the selection or takes it out.
+  // Layers without it are shown but can't be reached from the keyboard.
+  onSelect?: (layerId: string, extend: boolean) => void;
+  // Whether Tab lands on this layer when coming into the canvas.
+  isTabStop?: boolean;
+  // Id of the element explaining how to move and edit layers from the keyboard.
+  describedBy?: string;
+}
+
+const getShadowCss = ({ offsetX, offsetY, blur, color }: NonNullable<TextLayer['shadow']>) =>
+  `${offsetX}px ${offsetY}px ${blur}px ${color}`;
+
+// Gradient text is the gradient clipped to the letters, drawn over the box color if there's one.
+// A text-shadow would paint over the see-through letters, so the shadow becomes a filter instead.
+const getGradientStyle = (layer: TextLayer): React.CSSProperties => {
+  if (!layer.gradient) return {};
+  const boxColor = layer.background?.color;
+  const backgroundClip = boxColor ? 'text, border-box' : 'text';
+  return {
+    color: 'transparent',
+    backgroundColor: undefined,
+    backgroundImage: boxColor
+      ? `${getTextGradientCss(layer.gradient)}, linear-gradient(${boxColor}, ${boxColor})`
+      : getTextGradientCss(layer.gradient),
+    backgroundClip,
+    WebkitBackgroundClip: backgroundClip,
+    textShadow: 'none',
+    filter: layer.shadow ? `drop-shadow(${getShadowCss(layer.shadow)})` : undefined,
+  };
+};
+
+const getTextStyle = (layer: TextLayer, fittedFontSize: number | null): React.CSSProperties => ({
+  fontFamily: getFontStack(layer.fontFamily),
+  fontSize: fittedFontSize === null ? layer.fontSize : `${fittedFontSize}px`,
+  color: layer.color,
+  fontWeight: layer.fontWeight,
+  textAlign: layer.textAlign,
+  fontStyle: layer.italic ? 'italic' : 'normal',
+  textDecoration: layer.underline ? 'underline' : 'none',
+  textTransform: layer.uppercase ? 'uppercase' : 'none',
+  letterSpacing: `${layer.letterSpacing}px`,
+  lineHeight: layer.lineHeight,
+  textShadow: layer.shadow ? getShadowCss(layer.shadow) : 'none',
+  // Paint the stroke under the fill so outlines don't eat into thin letters.
+  WebkitTextStroke: layer.strokeWidth > 0 ? `${layer.strokeWidth}px ${layer.strokeColor}` : undefined,
+  paintOrder: 'stroke fill',
+  backgroundColor: layer.background?.color,
+  padding: layer.background ? `${layer.background.padding}px` : '0',
+  borderRadius: layer.background ? `${layer.background.radius}px` : undefined,
+  // Boxed text takes the layer's box; free text grows with its content, up to the canvas width.
+  ...(isTextBoxed(layer)
+    ? {
+        width: `${layer.size.width}%`,
+        height: layer.autoFit ? `${layer.size.height}%` : undefined,
+      }
+    : { maxWidth: '100%' }),
+  margin: '0',
+  // Keep line breaks typed in the text field.
+  whiteSpace: layer.wrap ? 'pre-wrap' : 'pre',
+  overflowWrap: layer.wrap ? 'break-word' : undefined,
+  overflow: 'visible',
+  ...getGradientStyle(layer),
+});
+
+function LayerContent({ layer }: { layer: Layer }) {
+  switch (layer.type) {
+    case 'text':
+      return <>{layer.text}</>;
+    case 'image':
+      return (
+        <img
+          src={layer.src}
+          alt=""
+          draggable={false}
+          className="w-full h-full pointer-events-none select-none"
+          style={{ objectFit: layer.fit }}
+        />
+      );
+    case 'shape':
+      return (
+        <div
+          className="w-full h-full"
+          style={{
+            backgroundColor: layer.fill,
+            border: layer.strokeWidth > 0 ? `${layer.strokeWidth}px solid ${layer.stroke}` : undefined,
+            borderRadius: layer.shape === 'ellipse' ? '50%' : `${layer.cornerRadius}px`,
+          }}
+        />
+      );
+  }
+}
+
+export default function CanvasLayer({ layer, isSelected = false, onPointerDown, onSelect, isTabStop = false, describedBy }: CanvasLayerProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const fittedFontSize = useFittedFontSize(ref, layer.type === 'text' ? layer : null);
+  if (layer.hidden) return null;
+
+  const layoutStyle: React.CSSProperties =
+    layer.type === 'text'
+      ? getTextStyle(layer, fittedFontSize)
+      : {
+          width: `${layer.size.width}%`,
+          height: `${layer.size.height}%`,
+        };
+
+  return (
+    <div
+      ref={ref}
+      data-layer-id={layer.id}
+      className={`absolute inline-block focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-4 focus-visible:outline-blue-300 ${
+        isSelected ? 'ring-2 ring-blue-500' : ''
+      }`}
+      style={{
+        ...layoutStyle,
+        left: `${layer.position.x}%`,
+        top: `${layer.position.y}%`,
+        transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+        opacity: layer.opacity,
+        cursor: 'move',
+        // Locked layers let clicks fall through to whatever sits underneath.
+        pointerEvents: layer.locked ? 'none' : undefined,
+      }}
+      onPointerDown={onPointerDown && ((e) => onPointerDown(e, layer.id))}
+      role={onSelect ? 'button' : undefined}
+      tabIndex={onSelect ? (isTabStop ? 0 : -1) : undefined}
+      aria-label={onSelect ? (layer.locked ? `${getLayerLabel(layer)}, locked` : getLayerLabel(layer)) : undefined}
+      aria-pressed={onSelect ? isSelected : undefined}
+      aria-describedby={onSelect ? describedBy : undefined}
+      onFocus={onSelect && (() => onSelect(layer.id, false))}
+      onKeyDown={onSelect && ((e) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        onSelect(layer.id, e.shiftKey);
+      })}
+    >
+      <LayerContent layer={layer} />
+    </div>
+  );
+}
@@ -1,23 +1,155 @@
-import { useState, useRef } from 'react';
-import { toPng } from 'html-to-image';
-import { ArrowDownTrayIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
-
-interface TextStyle {
-  id: string;
-  text: string;
-  fontFamily: string;
-  fontSize: string;
-  color: string;
-  fontWeight: string;
-  textAlign: 'left' | 'center' | 'right';
-  position: {
-    x: number;
-    y: number;
-  };
-}
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
+import { flushSync } from 'react-dom';
+import JSZip from 'jszip';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  DevicePhoneMobileIcon,
+  ExclamationTriangleIcon,
+  FolderOpenIcon,
+  LinkIcon,
+  MagnifyingGlassMinusIcon,
+  MagnifyingGlassPlusIcon,
+  PlayIcon,
+  Squares2X2Icon,
+  StopIcon,
+} from '@heroicons/react/24/outline';
+import {
+  DEFAULT_TIMELINE_DURATION,
+  MAX_TIMELINE_DURATION,
+  MIN_TIMELINE_DURATION,
+  isAnimated,
+} from '../lib/animation';
+import type { Background } from '../lib/background';
+import { BRAND_TEXT_ROLES, type BrandLogo } from '../lib/brandKits';
+import { formatColor } from '../lib/colors';
+import { formatRatio, getContrastReports, hasContrastIssue, sameReports, type ContrastReport } from '../lib/contrast';
+import {
+  DesignParseError,
+  parseDesign,
+  parseLayers,
+  serializeDesign,
+  serializeLayers,
+  type Design,
+} from '../lib/design';
+import {
+  createDesignId,
+  getCurrentDesignId,
+  getDesignSummary,
+  loadDesign,
+  setCurrentDesignId,
+} from '../lib/designStore';
+import { downloadBlob, toSafeFileName } from '../lib/download';
+import { sampleBackgroundColor } from '../lib/eyedropper';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  getExportFormat,
+  loadRenderResources,
+  rasterizeScene,
+  releaseRenderResources,
+  renderDesign,
+  renderPages,
+  renderThumbnail,
+  type ExportOptions,
+} from '../lib/exportImage';
+import {
+  applyLayerUpdate,
+  cloneLayers,
+  createImageLayer,
+  createShapeLayer,
+  createTextLayer,
+  expandToGroups,
+  fitImageSize,
+  getLayerLabel,
+  groupLayers,
+  isTextBoxed,
+  moveLayer,
+  ungroupLayers,
+  type Layer,
+  type LayerUpdate,
+} from '../lib/layers';
+import { LAYOUT_ISSUE_LABELS, getLayoutIssues, sameWarnings, type LayoutWarning } from '../lib/layoutWarnings';
+import { findPlaceholders } from '../lib/placeholders';
+import {
+  createPage,
+  duplicatePage,
+  fillDesignPlaceholders,
+  getMasterLayersForPage,
+  movePage,
+  PAGE_PLACEHOLDERS,
+  updatePage,
+  type Page,
+} from '../lib/pages';
+import { getPageScene } from '../lib/renderer';
+import type { Route } from '../lib/routes';
+import { SAFE_ZONES, type SafeZoneId } from '../lib/safeZones';
+import { createShareLink, hasSharedDesign, readShareLink } from '../lib/shareLink';
+import { instantiateTemplate, type StarterTemplate } from '../lib/starterTemplates';
+import { isEditableTarget } from '../lib/shortcuts';
+import { DEFAULT_CANVAS, type CanvasSize } from '../lib/canvasFormats';
+import { FONT_FAMILIES, FONT_SIZES, FONT_WEIGHTS, getFontStack, loadFont, waitForFonts } from '../lib/fonts';
+import {
+  alignOffsets,
+  angleFromCenter,
+  boundsIntersect,
+  collectSnapLines,
+  distributeOffsets,
+  getAnchorCorner,
+  getRotatedBounds,
+  getUnionBounds,
+  resizeFromCorner,
+  snapAngle,
+  snapBounds,
+  type Alignment,
+  type Bounds,
+  type Corner,
+  type Guide,
+  type Point,
+  type Size,
+  type SnapLines,
+} from '../lib/geometry';
+import { useAutosave } from '../hooks/useAutosave';
+import { useBrandKits } from '../hooks/useBrandKits';
+import { useCanvasViewport } from '../hooks/useCanvasViewport';
+import { useCustomFonts } from '../hooks/useCustomFonts';
+import { overflowsBox } from '../hooks/useFittedFontSize';
+import { useHistory } from '../hooks/useHistory';
+import { useRecentColors } from '../hooks/useRecentColors';
+import type { Navigate } from '../hooks/useRoute';
+import AnimationControls from './AnimationControls';
+import AnimationPreview from './AnimationPreview';
+import ArrangeControls from './ArrangeControls';
+import BackgroundControls from './BackgroundControls';
+import BrandKitPanel from './BrandKitPanel';
+import BulkGeneratePanel from './BulkGeneratePanel';
+import CanvasBackground from './CanvasBackground';
+import CanvasFormatPicker from './CanvasFormatPicker';
+import CanvasLayer from './CanvasLayer';
+import DesignLibrary from './DesignLibrary';
+import ExportMenu from './ExportMenu';
+import FeedPreview from './FeedPreview';
+import FontPicker from './FontPicker';
+import ImageLayerControls from './ImageLayerControls';
+import LayerPanel from './LayerPanel';
+import LayerTransformControls from './LayerTransformControls';
+import PageStrip from './PageStrip';
+import SafeZoneOverlay from './SafeZoneOverlay';
+import ShapeLayerControls from './ShapeLayerControls';
+import ShortcutsDialog from './ShortcutsDialog';
+import TemplateGallery from './TemplateGallery';
+import TextBoxControls from './TextBoxControls';
+import TextColorControls from './TextColorControls';
+import TextStyleControls from './TextStyleControls';
+import TransformHandles from './TransformHandles';
 
 interface DesignEditorProps {
   defaultTemplate?: string;
+  route: Route;
+  onNavigate: Navigate;
 }
 
 interface PresetPosition {
@@ -26,90 +158,33 @@ interface PresetPosition {
   y: number;
 }
 
-const FONT_FAMILIES = [
-  // Display and Decorative Fonts
-  'Abril Fatface',
-  'Amatic SC',
-  'Architects Daughter',
-  'Bebas Neue',
-  'Cookie',
-  'Dancing Script',
-  'Great Vibes',
-  'Indie Flower',
-  'Lobster',
-  'Pacifico',
-  'Permanent Marker',
-  'Sacramento',
-  
-  // Sans-Serif Fonts
-  'Montserrat',
-  'Poppins',
-  'Roboto',
-  'Open Sans',
-  'Lato',
-  'Nunito',
-  'Raleway',
-  'Source Sans 3',
-  'Work Sans',
-  'Noto Sans',
-  'PT Sans',
-  'Oxygen',
-  'Ubuntu',
-  'Mulish',
-  'Josefin Sans',
-  'Comfortaa',
-  'Quicksand',
-  'Exo 2',
-  'Rubik',
-  
-  // Serif Fonts
-  'Playfair Display',
-  'Lora',
-  'Merriweather',
-  'PT Serif',
-  'Crimson Text',
-  'Bitter',
-  'Spectral',
-  'Roboto Slab',
-  
-  // Monospace Fonts
-  'Roboto Mono',
-  'Source Code Pro',
-  'Space Mono',
-  
-  // Handwriting Fonts
-  'Caveat',
-  'Kalam',
-  'Handlee',
-  'Courgette',
-  
-  // Traditional Fonts
-  'Arial',
-  'Times New Roman',
-  'Georgia',
-  'Verdana',
-  'Helvetica',
-];
+// An in-progress canvas drag. Positions and sizes are in canvas pixels.
+type Gesture =
+  | { type: 'move'; start: Point; origins: Record<string, Point>; bounds: Bounds; snapLines: SnapLines }
+  | { type: 'marquee'; start: Point; initialSelection: string[] }
+  | { type: 'resize'; layerId: string; corner: Corner; anchor: Point; startSize: Size; startFontSize?: number }
+  | { type: 'rotate'; layerId: string; center: Point };
 
-const FONT_SIZES = ['18px', '24px', '32px', '40px', '48px', '56px', '64px', '72px', '96px'];
-const FONT_WEIGHTS = ['300', 'normal', '500', '600', 'bold', '800'];
-
-const TEXT_COLORS = [
-  // Primary Colors
-  '#FFFFFF', '#000000', '#808080', '#D3D3D3', '#A9A9A9', '#696969',
-  // Warm Colors
-  '#FF0000', '#FF4500', '#FFA500', '#FFD700', '#FFFF00', '#FFB6C1', '#FF69B4', '#FF1493',
-  '#8B0000', '#A52A2A', '#CD5C5C', '#DC143C', '#FF6347', '#FA8072',
-  // Cool Colors
-  '#00FF00', '#008000', '#00FFFF', '#0000FF', '#4B0082', '#00CED1', '#20B2AA', '#48D1CC',
-  '#40E0D0', '#7FFFD4', '#66CDAA', '#3CB371', '#2E8B57', '#006400',
-  // Pastel Colors
-  '#FFB6C1', '#DDA0DD', '#98FB98', '#87CEEB', '#E6E6FA', '#F0E68C', '#DEB887', '#F5DEB3',
-  '#FFDAB9', '#FFE4B5', '#FAFAD2', '#F0FFF0', '#F5FFFA', '#F0FFFF',
-  // Rich Colors
-  '#800000', '#8B4513', '#006400', '#000080', '#4B0082', '#800080', '#8B008B', '#9400D3',
-  '#483D8B', '#191970', '#000080', '#00008B', '#0000CD', '#0000FF'
-];
+// How close, in on-screen pixels, a dragged edge has to get to a guide before it snaps.
+const SNAP_THRESHOLD = 6;
+
+const ZOOM_STEP = 1.25;
+
+// How long edits have to settle before text contrast is checked again, in milliseconds.
+const CONTRAST_CHECK_DELAY = 400;
+
+const DEFAULT_DESIGN_NAME = 'Untitled design';
+const THUMBNAIL_WIDTH = 320;
+
+const createBlankDesign = (template?: string): Design => ({
+  canvas: DEFAULT_CANVAS,
+  pages: [createPage({ template })],
+  masterLayers: [],
+  duration: DEFAULT_TIMELINE_DURATION,
+});
+
+// Tall formats such as stories are scaled down so the whole canvas stays on screen.
+const PREVIEW_MAX_VIEWPORT_HEIGHT = 0.75;
 
 const PRESET_POSITIONS: PresetPosition[] = [
   { name: 'Center', x: 50, y: 50 },
@@ -123,188 +198,1370 @@ const PRESET_POSITIONS: PresetPosition[] = [
   { name: 'Bottom Right', x: 80, y: 90 },
 ];
 
-export default function DesignEditor({ defaultTemplate }: DesignEditorProps) {
-  const [template, setTemplate] = useState<string | undefined>(defaultTemplate);
-  const [isDragging, setIsDragging] = useState(false);
-  const [texts, setTexts] = useState<TextStyle[]>([]);
-  const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
+export default function DesignEditor({ defaultTemplate, route, onNavigate }: DesignEditorProps) {
+  const history = useHistory<Design>(createBlankDesign(defaultTemplate));
+  const { canvas, pages, masterLayers, duration } = history.present;
+  const [currentPageId, setCurrentPageId] = useState<string | null>(null);
+  // Falls back to the first page when the current one is deleted, undone away or from another design.
+  const pageIndex = Math.max(0, pages.findIndex(page => page.id === currentPageId));
+  const page = pages[pageIndex];
+  const { template, background } = page;
+  const [isEditingMaster, setIsEditingMaster] = useState(false);
+  // The layers the canvas and panels are editing.
+  const layers = isEditingMaster ? masterLayers : page.layers;
+  const [designId, setDesignId] = useState<string>(createDesignId);
+  const [designName, setDesignName] = useState(DEFAULT_DESIGN_NAME);
+  // Autosave stays off until the last open design has been restored, so it can't be overwritten by a blank one.
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const isGalleryOpen = route.name === 'templates';
+  const [galleryError, setGalleryError] = useState<string | null>(null);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isFeedPreviewOpen, setIsFeedPreviewOpen] = useState(false);
+  const [visibleSafeZones, setVisibleSafeZones] = useState<SafeZoneId[]>([]);
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
+  const selectedLayers = layers.filter(layer => selectedLayerIds.includes(layer.id));
+  // The property editors work on one layer at a time; a multi-selection only gets the arrange tools.
+  const selectedLayer = selectedLayers.length === 1 ? selectedLayers[0] : undefined;
+  const selectedLayerId = selectedLayer?.id ?? null;
+  const gestureRef = useRef<Gesture | null>(null);
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [layoutWarnings, setLayoutWarnings] = useState<LayoutWarning[]>([]);
+  const [contrastReports, setContrastReports] = useState<ContrastReport[]>([]);
+  const contrastIssues = contrastReports.filter(hasContrastIssue);
+  const selectedContrast = contrastReports.find(report => report.layerId === selectedLayerId);
+  // Only one canvas layer is in the tab order at a time, and Tab from there steps through the rest.
+  const tabbableLayers = layers.filter(layer => !layer.hidden);
+  const tabStopId = (tabbableLayers.find(layer => selectedLayerIds.includes(layer.id)) ?? tabbableLayers[tabbableLayers.length - 1])?.id;
+  const selectionAnnouncement = selectedLayer
+    ? `${getLayerLabel(selectedLayer)} selected, at ${Math.round((selectedLayer.position.x / 100) * canvas.width)}, ${Math.round((selectedLayer.position.y / 100) * canvas.height)}`
+    : selectedLayers.length > 1 ? `${selectedLayers.length} layers selected` : '';
+  const [selectedSize, setSelectedSize] = useState<Size | null>(null);
+  // A CSV row whose values fill the {{placeholders}} on the canvas, without touching the saved design.
+  const [previewRow, setPreviewRow] = useState<Record<string, string> | null>(null);
+  // The page as shown: the previewed CSV row filled in, with the master layers drawn on top.
+  const shownDesign = useMemo(
+    () => previewRow ? fillDesignPlaceholders(history.present, previewRow) : history.present,
+    [history.present, previewRow]
+  );
+  const renderedLayers = useMemo(() => [
+    ...shownDesign.pages[pageIndex].layers,
+    ...getMasterLayersForPage(shownDesign.masterLayers, pageIndex, shownDesign.pages.length),
+  ], [shownDesign, pageIndex]);
+  const pageScene = useMemo(() => getPageScene(shownDesign, pageIndex), [shownDesign, pageIndex]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const stopPlayback = useCallback(() => setIsPlaying(false), []);
+  const playbackScene = isPlaying ? pageScene : null;
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const designRef = useRef<HTMLDivElement>(null);
-  const [customColor, setCustomColor] = useState('#000000');
+  const previewContainerRef = useRef<HTMLDivElement>(null);
+  const previewFrameRef = useRef<HTMLDivElement>(null);
+  const [previewScale, setPreviewScale] = useState(1);
+  const viewport = useCanvasViewport(previewFrameRef, {
+    width: canvas.width * previewScale,
+    height: canvas.height * previewScale,
+  });
+  // On-screen pixels per canvas pixel, including pinch zoom.
+  const displayScale = previewScale * viewport.zoom;
+  // On small screens the properties panel is a bottom sheet that starts collapsed.
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const openInputRef = useRef<HTMLInputElement>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const recentColors = useRecentColors();
+  // While set, the next click on the canvas samples the background for this instead of selecting.
+  const [pickColor, setPickColor] = useState<((color: string) => void) | null>(null);
+  const customFonts = useCustomFonts();
+  const allFonts = [...customFonts.fonts.map(font => font.family), ...FONT_FAMILIES];
+  const brandKits = useBrandKits();
+  const { activeKit } = brandKits;
+  // An active kit narrows the text editor down to its own fonts and colors.
+  const fontChoices = activeKit && activeKit.fonts.length > 0 ? activeKit.fonts : allFonts;
+  const brandColors = activeKit && activeKit.colors.length > 0 ? activeKit.colors : null;
   const [isDownloadMenuOpen, setIsDownloadMenuOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exportFileName, setExportFileName] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Applies a change to the layers being edited: the current page's, or the master layers.
+  const editLayers = (change: (layers: Layer[]) => Layer[], coalesceKey?: string) => {
+    history.update(design => isEditingMaster
+      ? { ...design, masterLayers: change(design.masterLayers) }
+      : { ...design, pages: updatePage(design.pages, page.id, current => ({ ...current, layers: change(current.layers) })) },
+    { coalesceKey });
+  };
+
+  const selectPage = (id: string) => {
+    setCurrentPageId(id);
+    setIsEditingMaster(false);
+    setSelectedLayerIds([]);
+  };
+
+  const editMasterLayers = () => {
+    setIsEditingMaster(true);
+    setSelectedLayerIds([]);
+  };
+
+  // New pages go in after the current one and start with its background.
+  const insertPage = (added: Page) => {
+    history.update(design => {
+      const next = [...design.pages];
+      next.splice(design.pages.findIndex(other => other.id === page.id) + 1, 0, added);
+      return { ...design, pages: next };
+    });
+    selectPage(added.id);
+  };
+
+  const deletePage = (id: string) => {
+    if (pages.length === 1) return;
+    const index = pages.findIndex(other => other.id === id);
+    history.update(design => ({ ...design, pages: design.pages.filter(other => other.id !== id) }));
+    if (id === page.id) selectPage(pages[index === pages.length - 1 ? index - 1 : index + 1].id);
+  };
+
+  const handleMovePage = (id: string, toIndex: number) => {
+    history.update(design => ({ ...design, pages: movePage(design.pages, id, toIndex) }));
+  };
 
-  const addNewText = () => {
-    const newText: TextStyle = {
-      id: Date.now().toString(),
-      text: 'New Text',
-      fontFamily: 'Montserrat',
-      fontSize: '48px',
-      color: '#FFFFFF',
-      fontWeight: 'bold',
-      textAlign: 'center',
-      position: { x: 50, y: 50 },
+  // Layout warnings can point at a master layer while a page is being edited, or the other way round.
+  const focusLayer = (id: string) => {
+    setIsEditingMaster(masterLayers.some(layer => layer.id === id));
+    setSelectedLayerIds([id]);
+  };
+
+  const editPage = (updates: Partial<Page>, coalesceKey?: string) => {
+    history.update(design => ({
+      ...design,
+      pages: updatePage(design.pages, page.id, current => ({ ...current, ...updates })),
+    }), { coalesceKey });
+  };
+
+  const addLayer = (layer: Layer) => {
+    editLayers(current => [...current, layer]);
+    setSelectedLayerIds([layer.id]);
+  };
+
+  const addNewText = () => addLayer(createTextLayer(activeKit?.textStyles.body));
+
+  const addNewShape = () => addLayer(createShapeLayer('rectangle'));
+
+  const handleImageLayerUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => addImageLayer(e.target?.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const addImageLayer = (src: string, name?: string) => {
+    const image = new Image();
+    image.onload = () => {
+      addLayer(createImageLayer(src, { name, size: fitImageSize(image.naturalWidth, image.naturalHeight, canvas) }));
     };
-    setTexts([...texts, newText]);
-    setSelectedTextId(newText.id);
+    image.src = src;
+  };
+
+  const insertBrandLogo = (logo: BrandLogo) => addImageLayer(logo.src, logo.name);
+
+  const updateLayers = (updates: Record<string, LayerUpdate>, coalesceKey?: string) => {
+    editLayers(current => current.map(layer =>
+      updates[layer.id] ? applyLayerUpdate(layer, updates[layer.id]) : layer
+    ), coalesceKey);
   };
 
-  const updateText = (id: string, updates: Partial<TextStyle>) => {
-    setTexts(texts.map(text => 
-      text.id === id ? { ...text, ...updates } : text
-    ));
+  const updateLayer = (id: string, updates: LayerUpdate, coalesceKey?: string) =>
+    updateLayers({ [id]: updates }, coalesceKey);
+
+  // Contrast fixes apply to whichever layer is shown, master layers included, without switching what's edited.
+  const updateShownLayer = (id: string, updates: LayerUpdate) => {
+    const apply = (current: Layer[]) => current.map(layer => layer.id === id ? applyLayerUpdate(layer, updates) : layer);
+    history.update(design => ({
+      ...design,
+      masterLayers: apply(design.masterLayers),
+      pages: updatePage(design.pages, page.id, current => ({ ...current, layers: apply(current.layers) })),
+    }));
   };
 
-  const deleteText = (id: string) => {
-    setTexts(texts.filter(text => text.id !== id));
-    if (selectedTextId === id) {
-      setSelectedTextId(null);
+  const handleMoveLayer = (id: string, toIndex: number) => {
+    editLayers(current => moveLayer(current, id, toIndex));
+  };
+
+  const deleteLayers = (ids: string[]) => {
+    editLayers(current => current.filter(layer => !ids.includes(layer.id)));
+    setSelectedLayerIds(current => current.filter(id => !ids.includes(id)));
+  };
+
+  // Fonts are fetched on demand, as soon as the design or the active brand kit uses them.
+  useEffect(() => {
+    for (const layer of [...pages.flatMap(page => page.layers), ...masterLayers]) {
+      if (layer.type === 'text') loadFont(layer.fontFamily);
     }
+  }, [pages, masterLayers]);
+
+  useEffect(() => {
+    if (!activeKit) return;
+    for (const style of Object.values(activeKit.textStyles)) loadFont(style.fontFamily);
+    activeKit.fonts.forEach(loadFont);
+  }, [activeKit]);
+
+  // Copies go in just above the topmost original, keeping their stacking order.
+  const duplicateLayers = (originals: Layer[]) => {
+    const copies = cloneLayers(originals);
+    editLayers(current => {
+      const next = [...current];
+      const index = Math.max(...originals.map(layer => next.findIndex(other => other.id === layer.id)));
+      next.splice(index + 1, 0, ...copies);
+      return next;
+    });
+    setSelectedLayerIds(copies.map(copy => copy.id));
   };
 
-  const handleTemplateUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setTemplate(e.target?.result as string);
+  const pasteLayers = (pasted: Layer[]) => {
+    if (pasted.length === 0) return;
+    const copies = cloneLayers(pasted);
+    editLayers(current => [...current, ...copies]);
+    setSelectedLayerIds(copies.map(copy => copy.id));
+  };
+
+  // Moves layers by whole canvas pixels; repeated presses collapse into one undo step.
+  const nudgeLayers = (targets: Layer[], dx: number, dy: number) => {
+    updateLayers(Object.fromEntries(targets.map(layer => [layer.id, {
+      position: {
+        x: layer.position.x + (dx / canvas.width) * 100,
+        y: layer.position.y + (dy / canvas.height) * 100,
+      },
+    }])), `nudge:${targets.map(layer => layer.id).join(',')}`);
+  };
+
+  const groupSelection = () => {
+    if (selectedLayerIds.length < 2) return;
+    editLayers(current => groupLayers(current, selectedLayerIds));
+  };
+
+  const ungroupSelection = () => {
+    editLayers(current => ungroupLayers(current, selectedLayerIds));
+  };
+
+  // Tab order follows the layers panel, top layer first. Without `wrap` it stops at either end and
+  // returns false, so the key can move focus on out of the canvas.
+  const cycleSelection = (direction: 1 | -1, wrap = true): boolean => {
+    const order = [...layers].reverse().filter(layer => !layer.hidden);
+    if (order.length === 0) return false;
+    const index = order.findIndex(layer => layer.id === selectedLayerId);
+    const next = index === -1 ? (direction === 1 ? 0 : order.length - 1) : index + direction;
+    if (!wrap && (next < 0 || next >= order.length)) return false;
+    setSelectedLayerIds([order[(next + order.length) % order.length].id]);
+    return true;
+  };
+
+  // Picks a layer from the keyboard, with its group, as a click on the canvas does.
+  const selectCanvasLayer = (id: string, extend: boolean) => {
+    setSelectedLayerIds(ids => {
+      const picked = expandToGroups(layers, [id]);
+      if (!extend) return ids.includes(id) ? ids : picked;
+      return ids.includes(id)
+        ? ids.filter(other => !picked.includes(other))
+        : [...ids, ...picked.filter(other => !ids.includes(other))];
+    });
+  };
+
+  // The listeners below are registered once and always call the latest handlers.
+  const handleKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleKeyDownRef.current = (e) => {
+    if (e.defaultPrevented || isEditableTarget(e.target)) return;
+    if (e.key === '?') {
+      e.preventDefault();
+      setIsShortcutsOpen(open => !open);
+      return;
+    }
+    if (isShortcutsOpen || isLibraryOpen || isGalleryOpen || isFeedPreviewOpen) return;
+
+    if (e.ctrlKey || e.metaKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      } else if (key === 'd' && selectedLayers.length > 0) {
+        e.preventDefault();
+        duplicateLayers(selectedLayers);
+      } else if (key === 'a') {
+        e.preventDefault();
+        setSelectedLayerIds(layers.filter(layer => !layer.hidden && !layer.locked).map(layer => layer.id));
+      } else if (key === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) ungroupSelection();
+        else groupSelection();
+      }
+      return;
+    }
+    if (e.altKey) return;
+
+    const step = e.shiftKey ? 10 : 1;
+    switch (e.key) {
+      case 'Escape':
+        if (pickColor) {
+          setPickColor(null);
+          break;
+        }
+        setSelectedLayerIds([]);
+        setIsDownloadMenuOpen(false);
+        break;
+      case 'Tab': {
+        // Only while nothing else has focus, so Tab still moves through the page's controls. From a
+        // layer it stops at the last one, so the keyboard can leave the canvas.
+        const isOnCanvas = designRef.current?.contains(e.target as Node) ?? false;
+        if (e.target !== document.body && !isOnCanvas) return;
+        if (cycleSelection(e.shiftKey ? -1 : 1, !isOnCanvas)) e.preventDefault();
+        break;
+      }
+      case 'Delete':
+      case 'Backspace':
+        if (selectedLayerIds.length === 0) return;
+        e.preventDefault();
+        deleteLayers(selectedLayerIds);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const movable = selectedLayers.filter(layer => !layer.locked);
+        if (movable.length === 0) return;
+        e.preventDefault();
+        const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+        const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+        nudgeLayers(movable, dx, dy);
+        break;
+      }
+    }
+  };
+
+  // Keyboard focus on the canvas follows the selected layer, so screen readers announce each one.
+  useEffect(() => {
+    const design = designRef.current;
+    const active = document.activeElement;
+    if (!selectedLayerId || !design || (active !== document.body && !design.contains(active))) return;
+    design.querySelector<HTMLElement>(`[data-layer-id="${selectedLayerId}"]`)?.focus({ preventScroll: true });
+  }, [selectedLayerId]);
+
+  // Copied layers go through the system clipboard as JSON, so they can be pasted into another design or tab.
+  const handleClipboardRef = useRef<(e: ClipboardEvent) => void>(() => {});
+  handleClipboardRef.current = (e) => {
+    if (isEditableTarget(e.target) || !e.clipboardData) return;
+    if (e.type === 'paste') {
+      try {
+        const pasted = parseLayers(e.clipboardData.getData('text/plain'));
+        if (!pasted) return;
+        e.preventDefault();
+        pasteLayers(pasted);
+      } catch (err) {
+        console.error('Error pasting layers:', err);
+        setOpenError(err instanceof DesignParseError ? `Could not paste: ${err.message}` : 'Could not paste layers');
+      }
+      return;
+    }
+
+    // Leave copying of selected page text alone.
+    if (selectedLayers.length === 0 || window.getSelection()?.toString()) return;
+    e.clipboardData.setData('text/plain', serializeLayers(selectedLayers));
+    e.preventDefault();
+    if (e.type === 'cut') deleteLayers(selectedLayerIds);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+    const handleClipboard = (e: ClipboardEvent) => handleClipboardRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('copy', handleClipboard);
+    window.addEventListener('cut', handleClipboard);
+    window.addEventListener('paste', handleClipboard);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('copy', handleClipboard);
+      window.removeEventListener('cut', handleClipboard);
+      window.removeEventListener('paste', handleClipboard);
+    };
+  }, []);
+
+  // The canvas is laid out at its real pixel size and scaled down to fit the preview area.
+  useEffect(() => {
+    const container = previewContainerRef.current;
+    if (!container) return;
+
+    const updateScale = () => {
+      const maxHeight = window.innerHeight * PREVIEW_MAX_VIEWPORT_HEIGHT;
+      setPreviewScale(Math.min(container.clientWidth / canvas.width, maxHeight / canvas.height));
+    };
+    updateScale();
+
+    const observer = new ResizeObserver(updateScale);
+    observer.observe(container);
+    window.addEventListener('resize', updateScale);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', updateScale);
+    };
+  }, [canvas.width, canvas.height]);
+
+  const handleCanvasSizeChange = (size: CanvasSize) => {
+    history.update(design => ({ ...design, canvas: size }));
+  };
+
+  // Undo and redo can remove selected layers out from under the editor panel.
+  useEffect(() => {
+    if (selectedLayerIds.some(id => !layers.some(layer => layer.id === id))) {
+      setSelectedLayerIds(ids => ids.filter(id => layers.some(layer => layer.id === id)));
+    }
+  }, [layers, selectedLayerIds]);
+
+  const handleTemplateUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      editPage({ template: e.target?.result as string });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleBackgroundChange = (background: Background, coalesceKey?: string) => {
+    editPage({ background }, coalesceKey);
+  };
+
+  // Rendered size of a layer in canvas pixels, before rotation. Text layers size themselves to their content.
+  const measureLayer = (id: string): Size | null => {
+    const element = designRef.current?.querySelector<HTMLElement>(`[data-layer-id="${id}"]`);
+    return element ? { width: element.offsetWidth, height: element.offsetHeight } : null;
+  };
+
+  useLayoutEffect(() => {
+    const size = selectedLayerId ? measureLayer(selectedLayerId) : null;
+    setSelectedSize(prev =>
+      prev && size && prev.width === size.width && prev.height === size.height ? prev : size
+    );
+  }, [layers, selectedLayerId]);
+
+  // Layers that will be clipped or cropped, checked against what's actually rendered.
+  useLayoutEffect(() => {
+    const warnings = renderedLayers.flatMap((layer): LayoutWarning[] => {
+      const element = designRef.current?.querySelector<HTMLElement>(`[data-layer-id="${layer.id}"]`);
+      if (!element) return [];
+      const bounds = getRotatedBounds(
+        { x: (layer.position.x / 100) * canvas.width, y: (layer.position.y / 100) * canvas.height },
+        { width: element.offsetWidth, height: element.offsetHeight },
+        layer.rotation
+      );
+      const textOverflows = layer.type === 'text' && layer.autoFit && overflowsBox(element);
+      const issues = getLayoutIssues(layer, bounds, canvas, textOverflows);
+      return issues.length > 0 ? [{ layerId: layer.id, issues, bounds }] : [];
+    });
+    setLayoutWarnings(prev => sameWarnings(prev, warnings) ? prev : warnings);
+  }, [renderedLayers, canvas]);
+
+  // Text contrast is measured on the page as the renderer draws it, once edits settle.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const resources = await loadRenderResources(pageScene);
+        try {
+          if (cancelled) return;
+          const reports = getContrastReports(pageScene, resources);
+          setContrastReports(prev => sameReports(prev, reports) ? prev : reports);
+        } finally {
+          releaseRenderResources(resources);
+        }
+      } catch (err) {
+        console.error('Error checking text contrast:', err);
+      }
+    }, CONTRAST_CHECK_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pageScene]);
+
+  const toCanvasPoint = (e: React.PointerEvent): Point | null => {
+    if (!designRef.current) return null;
+    const rect = designRef.current.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const getLayerCenter = (layer: Layer): Point => ({
+    x: (layer.position.x / 100) * canvas.width,
+    y: (layer.position.y / 100) * canvas.height,
+  });
+
+  // Box a layer covers on the canvas, rotation included.
+  const getLayerBounds = (layer: Layer): Bounds | null => {
+    const size = measureLayer(layer.id);
+    return size ? getRotatedBounds(getLayerCenter(layer), size, layer.rotation) : null;
+  };
+
+  const handleLayerPointerDown = (e: React.PointerEvent, layerId: string) => {
+    const layer = layers.find(l => l.id === layerId);
+    const pointer = toCanvasPoint(e);
+    if (!pointer || !layer || layer.locked || layer.hidden) return;
+    e.preventDefault();
+
+    // Clicking any layer of a group picks up the whole group.
+    const clicked = expandToGroups(layers, [layerId]);
+    if (e.shiftKey) {
+      setSelectedLayerIds(selectedLayerIds.includes(layerId)
+        ? selectedLayerIds.filter(id => !clicked.includes(id))
+        : [...selectedLayerIds, ...clicked.filter(id => !selectedLayerIds.includes(id))]);
+      return;
+    }
+    // Dragging a layer that's already selected moves the whole selection with it.
+    const selection = selectedLayerIds.includes(layerId) ? selectedLayerIds : clicked;
+    setSelectedLayerIds(selection);
+
+    const moving = layers.filter(other => selection.includes(other.id) && !other.locked && !other.hidden);
+    const boxes = moving.flatMap(other => getLayerBounds(other) ?? []);
+    if (boxes.length === 0) return;
+    history.checkpoint();
+
+    // Snaps to everything on the page, master layers included.
+    const others = renderedLayers
+      .filter(other => !selection.includes(other.id) && !other.hidden)
+      .flatMap(other => getLayerBounds(other) ?? []);
+
+    gestureRef.current = {
+      type: 'move',
+      start: pointer,
+      origins: Object.fromEntries(moving.map(other => [other.id, getLayerCenter(other)])),
+      bounds: getUnionBounds(boxes),
+      snapLines: collectSnapLines(canvas, others),
+    };
+  };
+
+  // Dragging across empty canvas draws a selection box; a plain click there clears the selection.
+  const handleStagePointerDown = (e: React.PointerEvent) => {
+    const pointer = toCanvasPoint(e);
+    if (e.defaultPrevented || e.button !== 0 || !pointer) return;
+    e.preventDefault();
+    const initialSelection = e.shiftKey ? selectedLayerIds : [];
+    setSelectedLayerIds(initialSelection);
+    gestureRef.current = { type: 'marquee', start: pointer, initialSelection };
+  };
+
+  const handleResizeStart = (e: React.PointerEvent, corner: Corner) => {
+    if (!selectedLayer || !selectedSize) return;
+    e.preventDefault();
+    e.stopPropagation();
+    history.checkpoint();
+    gestureRef.current = {
+      type: 'resize',
+      layerId: selectedLayer.id,
+      corner,
+      anchor: getAnchorCorner(getLayerCenter(selectedLayer), selectedSize, selectedLayer.rotation, corner),
+      startSize: selectedSize,
+      startFontSize: selectedLayer.type === 'text' ? parseFloat(selectedLayer.fontSize) : undefined,
+    };
+  };
+
+  const handleRotateStart = (e: React.PointerEvent) => {
+    if (!selectedLayer) return;
+    e.preventDefault();
+    e.stopPropagation();
+    history.checkpoint();
+    gestureRef.current = { type: 'rotate', layerId: selectedLayer.id, center: getLayerCenter(selectedLayer) };
+  };
+
+  const endGesture = () => {
+    gestureRef.current = null;
+    setGuides([]);
+    setMarquee(null);
+  };
+
+  // The stage captures every pointer, so a drag keeps going when it leaves the canvas. Each one is also
+  // tracked for pinch zoom, and a second finger cancels whatever the first one started.
+  const handleStagePointerDownCapture = (e: React.PointerEvent) => {
+    if (pickColor) {
+      e.stopPropagation();
+      e.preventDefault();
+      const point = toCanvasPoint(e);
+      setPickColor(null);
+      if (!point) return;
+      sampleBackgroundColor(pageScene, point)
+        .then(color => color && pickColor(formatColor(color)))
+        .catch(err => console.error('Error sampling the background color:', err));
+      return;
+    }
+    designRef.current?.setPointerCapture(e.pointerId);
+    if (viewport.handlePointerDown(e)) {
+      e.stopPropagation();
+      endGesture();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (viewport.handlePointerMove(e)) return;
+    const gesture = gestureRef.current;
+    const pointer = toCanvasPoint(e);
+    if (!gesture || !pointer) return;
+
+    if (gesture.type === 'move') {
+      const dx = pointer.x - gesture.start.x;
+      const dy = pointer.y - gesture.start.y;
+      const bounds = { ...gesture.bounds, left: gesture.bounds.left + dx, top: gesture.bounds.top + dy };
+      // Hold Alt to place freely without snapping.
+      const snap = e.altKey
+        ? { dx: 0, dy: 0, guides: [] }
+        : snapBounds(bounds, gesture.snapLines, SNAP_THRESHOLD / displayScale);
+      setGuides(snap.guides);
+      const ids = Object.keys(gesture.origins);
+      updateLayers(Object.fromEntries(ids.map(id => [id, {
+        position: {
+          x: ((gesture.origins[id].x + dx + snap.dx) / canvas.width) * 100,
+          y: ((gesture.origins[id].y + dy + snap.dy) / canvas.height) * 100,
+        },
+      }])), `move:${ids.join(',')}`);
+    } else if (gesture.type === 'marquee') {
+      const box = {
+        left: Math.min(gesture.start.x, pointer.x),
+        top: Math.min(gesture.start.y, pointer.y),
+        width: Math.abs(pointer.x - gesture.start.x),
+        height: Math.abs(pointer.y - gesture.start.y),
       };
-      reader.readAsDataURL(file);
+      setMarquee(box);
+      const touched = layers
+        .filter(layer => !layer.hidden && !layer.locked)
+        .filter(layer => {
+          const bounds = getLayerBounds(layer);
+          return bounds !== null && boundsIntersect(bounds, box);
+        })
+        .map(layer => layer.id);
+      const ids = expandToGroups(layers, touched);
+      setSelectedLayerIds([...gesture.initialSelection, ...ids.filter(id => !gesture.initialSelection.includes(id))]);
+    } else if (gesture.type === 'resize') {
+      const layer = layers.find(l => l.id === gesture.layerId);
+      if (!layer) return;
+      // Free text scales its font size, so it always keeps its proportions. Boxed text resizes its box.
+      const scalesFont = layer.type === 'text' && !isTextBoxed(layer);
+      const keepAspectRatio = scalesFont || e.shiftKey;
+      // Wrapped text takes its height from the lines, so only the width is dragged.
+      const lockHeight = layer.type === 'text' && layer.wrap && !layer.autoFit;
+      const { center, size } = resizeFromCorner(
+        gesture.anchor, pointer, gesture.corner, layer.rotation, gesture.startSize, keepAspectRatio, undefined, lockHeight
+      );
+      const position = { x: (center.x / canvas.width) * 100, y: (center.y / canvas.height) * 100 };
+      if (scalesFont && gesture.startFontSize) {
+        const fontSize = Math.max(1, Math.round(gesture.startFontSize * (size.height / gesture.startSize.height)));
+        updateLayer(layer.id, { position, fontSize: `${fontSize}px` }, `resize:${layer.id}`);
+      } else {
+        updateLayer(layer.id, {
+          position,
+          size: { width: (size.width / canvas.width) * 100, height: (size.height / canvas.height) * 100 },
+        }, `resize:${layer.id}`);
+      }
+    } else if (gesture.type === 'rotate') {
+      // Hold Shift to rotate freely without snapping to 45° steps.
+      const angle = angleFromCenter(gesture.center, pointer);
+      const rotation = e.shiftKey ? snapAngle(angle, 1, 0.5) : snapAngle(angle);
+      updateLayer(gesture.layerId, { rotation }, `rotate:${gesture.layerId}`);
     }
   };
 
-  const handleMouseDown = (e: React.MouseEvent, textId: string) => {
+  const handlePointerUp = (e: React.PointerEvent) => {
+    viewport.handlePointerUp(e);
+    endGesture();
+  };
+
+  // Groups line up as one unit, so their layers keep their places relative to each other.
+  const getArrangeUnits = () => {
+    const units = new Map<string, { layers: Layer[]; boxes: Bounds[] }>();
+    for (const layer of selectedLayers) {
+      const bounds = layer.locked || layer.hidden ? null : getLayerBounds(layer);
+      if (!bounds) continue;
+      const key = layer.groupId || layer.id;
+      const unit = units.get(key) ?? { layers: [], boxes: [] };
+      unit.layers.push(layer);
+      unit.boxes.push(bounds);
+      units.set(key, unit);
+    }
+    return [...units.values()].map(unit => ({ layers: unit.layers, bounds: getUnionBounds(unit.boxes) }));
+  };
+
+  const moveUnits = (units: ReturnType<typeof getArrangeUnits>, offsets: Point[]) => {
+    const updates: Record<string, LayerUpdate> = {};
+    units.forEach((unit, index) => {
+      for (const layer of unit.layers) {
+        updates[layer.id] = {
+          position: {
+            x: layer.position.x + (offsets[index].x / canvas.width) * 100,
+            y: layer.position.y + (offsets[index].y / canvas.height) * 100,
+          },
+        };
+      }
+    });
+    updateLayers(updates);
+  };
+
+  // A lone layer or group lines up with the canvas; several line up with each other.
+  const alignSelection = (alignment: Alignment) => {
+    const units = getArrangeUnits();
+    if (units.length === 0) return;
+    const target = units.length === 1
+      ? { left: 0, top: 0, width: canvas.width, height: canvas.height }
+      : getUnionBounds(units.map(unit => unit.bounds));
+    moveUnits(units, alignOffsets(units.map(unit => unit.bounds), alignment, target));
+  };
+
+  const distributeSelection = (axis: 'horizontal' | 'vertical') => {
+    const units = getArrangeUnits();
+    if (units.length < 3) return;
+    moveUnits(units, distributeOffsets(units.map(unit => unit.bounds), axis));
+  };
+
+  const selectionGroupIds = new Set(selectedLayers.map(layer => layer.groupId));
+  const canGroup = selectedLayers.length > 1 && (selectionGroupIds.size > 1 || selectionGroupIds.has(''));
+  const canUngroup = selectedLayers.some(layer => layer.groupId);
+
+  const exportFormat = getExportFormat(exportOptions.format);
+  const defaultExportFileName = toSafeFileName(designName) || 'design';
+
+  const exportsAllPages = pages.length > 1 && exportOptions.allPages;
+  const exportLabel = exportsAllPages
+    ? `Download ${pages.length} pages as ${exportFormat.label}`
+    : `Download as ${exportFormat.label}`;
+
+  // SVG is captured from the stage, so each page is put on it in turn, without selection outlines,
+  // before going back to where the user was. Other formats don't touch the stage.
+  const renderAllPages = async (node: HTMLElement, baseName: string) => {
+    const { id: returnPageId } = page;
+    const wasEditingMaster = isEditingMaster;
+    const scenes = shownDesign.pages.map((_, index) => getPageScene(shownDesign, index));
+    try {
+      return await renderPages(node, scenes, exportOptions, async (index) => {
+        flushSync(() => {
+          setSelectedLayerIds([]);
+          setIsEditingMaster(false);
+          setCurrentPageId(pages[index].id);
+        });
+        await waitForFonts(scenes[index].layers);
+      }, baseName);
+    } finally {
+      setCurrentPageId(returnPageId);
+      setIsEditingMaster(wasEditingMaster);
+    }
+  };
+
+  const handleDownload = async () => {
     if (!designRef.current) return;
-    setIsDragging(true);
-    setSelectedTextId(textId);
-    
-    const rect = designRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-    
-    updateText(textId, { position: { x, y } });
+    setIsDownloadMenuOpen(false);
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      // Drop an extension typed by hand so it isn't doubled up.
+      const baseName = toSafeFileName(exportFileName.replace(/\.[a-z0-9]+$/i, '')) || defaultExportFileName;
+      if (exportsAllPages) {
+        const blob = await renderAllPages(designRef.current, baseName);
+        downloadBlob(blob, `${baseName}.${exportOptions.format === 'pdf' ? 'pdf' : 'zip'}`);
+      } else {
+        if (exportOptions.format === 'svg') {
+          flushSync(() => setSelectedLayerIds([]));
+          await waitForFonts(renderedLayers);
+        }
+        const blob = await renderDesign(designRef.current, getPageScene(shownDesign, pageIndex), exportOptions);
+        downloadBlob(blob, `${baseName}.${exportFormat.extension}`);
+      }
+    } catch (err) {
+      console.error('Error generating image:', err);
+      setExportError(err instanceof Error ? err.message : 'Could not export the design');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !designRef.current || !selectedTextId) return;
-    
-    const rect = designRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-    
-    updateText(selectedTextId, { position: { x, y } });
+  // Renders the current page once per CSV row and bundles the PNGs into a ZIP.
+  const handleBulkExport = async (
+    rows: Record<string, string>[],
+    fileNames: string[],
+    onProgress: (done: number) => void
+  ) => {
+    const zip = new JSZip();
+    for (const [index, row] of rows.entries()) {
+      const scene = getPageScene(fillDesignPlaceholders(history.present, row), pageIndex);
+      zip.file(fileNames[index], await rasterizeScene(scene, { type: 'image/png', scale: 1, transparent: false }));
+      onProgress(index + 1);
+    }
+    downloadBlob(await zip.generateAsync({ type: 'blob' }), 'designs.zip');
   };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
+  const handleDownloadJSON = () => {
+    const dataStr = serializeDesign(history.present);
+    const dataBlob = new Blob([dataStr], { type: 'application/json' });
+    downloadBlob(dataBlob, `${defaultExportFileName}.json`);
+  };
+
+  const handleCopyShareLink = async () => {
+    setShareNotice(null);
+    try {
+      const { url, isPartial } = await createShareLink(history.present, designName);
+      await navigator.clipboard.writeText(url);
+      setShareError(null);
+      setShareNotice(isPartial
+        ? 'Link copied. Large images were left out and will show as placeholders.'
+        : 'Link copied. Anyone with it can open an editable copy.');
+    } catch (err) {
+      console.error('Error creating share link:', err);
+      setShareError('Could not copy a share link');
+    }
   };
 
-  const handleDownloadPNG = async () => {
-    if (designRef.current) {
+  // Drawn by the headless renderer, so it shows the first page without selection outlines whatever the stage shows.
+  const captureThumbnail = (design: Design) => renderThumbnail(getPageScene(design, 0), THUMBNAIL_WIDTH);
+
+  const autosave = useAutosave({
+    id: designId,
+    name: designName,
+    design: history.present,
+    enabled: !isRestoring,
+    captureThumbnail,
+  });
+  const { reset: resetHistory } = history;
+  const { markSaved } = autosave;
+
+  // Swaps the whole editor over to another design. Designs that are already stored aren't saved again until edited.
+  const switchDesign = useCallback((id: string, name: string, design: Design, isStored: boolean) => {
+    resetHistory(design);
+    setDesignId(id);
+    setDesignName(name);
+    setSelectedLayerIds([]);
+    setCurrentPageId(null);
+    setIsEditingMaster(false);
+    setPreviewRow(null);
+    if (isStored) markSaved({ id, name, design });
+  }, [resetHistory, markSaved]);
+
+  const { flush: flushAutosave } = autosave;
+
+  // Opens a design other than the stored one under its own address, e.g. a new or shared design.
+  const openNewDesign = useCallback((id: string, name: string, design: Design, isStored: boolean) => {
+    switchDesign(id, name, design, isStored);
+    onNavigate({ name: 'design', id }, { replace: true });
+  }, [switchDesign, onNavigate]);
+
+  // Where the app starts: a shared link, the last open design, or the template gallery on a first visit.
+  // A /designs/:id address is picked up by the effect below instead.
+  const initialRouteRef = useRef(route);
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      if (hasSharedDesign(window.location.hash)) {
+        try {
+          const { name, design, isPartial } = await readShareLink(window.location.hash);
+          if (cancelled) return;
+          openNewDesign(createDesignId(), name || DEFAULT_DESIGN_NAME, design, false);
+          setOpenError(isPartial ? 'Large images were left out of the link and show as placeholders' : null);
+          setIsRestoring(false);
+          return;
+        } catch (err) {
+          console.error('Error opening shared design:', err);
+          setOpenError(err instanceof DesignParseError ? `Could not open the shared design: ${err.message}` : 'Could not open the shared design');
+        }
+      }
+      if (cancelled || initialRouteRef.current.name === 'design') return;
+
+      const id = getCurrentDesignId();
+      if (!id) {
+        // First visit: offer the starter templates instead of an empty canvas.
+        onNavigate({ name: 'templates' }, { replace: true });
+        return;
+      }
       try {
-        const dataUrl = await toPng(designRef.current, { quality: 1.0 });
-        const link = document.createElement('a');
-        link.download = 'design.png';
-        link.href = dataUrl;
-        link.click();
+        const [summary, design] = await Promise.all([getDesignSummary(id), loadDesign(id)]);
+        if (!cancelled && summary && design) switchDesign(id, summary.name, design, true);
       } catch (err) {
-        console.error('Error generating image:', err);
+        console.error('Error restoring design:', err);
       }
+    };
+
+    restore().finally(() => {
+      if (!cancelled && initialRouteRef.current.name !== 'design') setIsRestoring(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [switchDesign, openNewDesign, onNavigate]);
+
+  // /editor stands for whichever design is open.
+  useEffect(() => {
+    if (route.name === 'editor' && !isRestoring) onNavigate({ name: 'design', id: designId }, { replace: true });
+  }, [route.name, isRestoring, designId, onNavigate]);
+
+  // Follows the address to a stored design, on load, from the library and on back and forward.
+  const routeDesignId = route.name === 'design' ? route.id : null;
+  useEffect(() => {
+    if (routeDesignId === null || routeDesignId === designId) return;
+
+    let cancelled = false;
+    flushAutosave()
+      .then(() => Promise.all([getDesignSummary(routeDesignId), loadDesign(routeDesignId)]))
+      .then(([summary, design]) => {
+        if (cancelled) return;
+        if (summary && design) {
+          switchDesign(routeDesignId, summary.name, design, true);
+          setOpenError(null);
+        } else {
+          setOpenError('That design is not saved in this browser');
+          onNavigate({ name: 'design', id: designId }, { replace: true });
+        }
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error opening design:', err);
+        setOpenError(err instanceof DesignParseError ? `Could not open design: ${err.message}` : 'Could not open design');
+        onNavigate({ name: 'design', id: designId }, { replace: true });
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [routeDesignId, designId, flushAutosave, switchDesign, onNavigate]);
+
+  useEffect(() => {
+    if (!isRestoring) setCurrentDesignId(designId);
+  }, [designId, isRestoring]);
+
+  const handleOpenSavedDesign = (id: string) => {
+    setIsLibraryOpen(false);
+    if (id !== designId) onNavigate({ name: 'design', id });
+  };
+
+  const closeGallery = () => onNavigate({ name: 'design', id: designId }, { replace: true });
+
+  const handleNewDesign = async () => {
+    setIsLibraryOpen(false);
+    await autosave.flush();
+    openNewDesign(createDesignId(), DEFAULT_DESIGN_NAME, createBlankDesign(), true);
+  };
+
+  // A template opens as a new design, stored once it's edited, like a blank one.
+  const handlePickTemplate = async (template: StarterTemplate) => {
+    try {
+      const design = await instantiateTemplate(template);
+      await autosave.flush();
+      openNewDesign(createDesignId(), template.name, design, true);
+      setGalleryError(null);
+    } catch (err) {
+      console.error('Error opening template:', err);
+      setGalleryError(`Could not open the ${template.name} template`);
     }
   };
 
-  const handleDownloadJSON = () => {
-    const designData = {
-      template,
-      texts,
-      timestamp: new Date().toISOString(),
+  const handleOpenLibrary = async () => {
+    await autosave.flush();
+    setIsLibraryOpen(true);
+  };
+
+  const handleOpenDesign = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const design = parseDesign(e.target?.result as string);
+        // An opened file becomes a new design in the library rather than replacing the current one.
+        await autosave.flush();
+        openNewDesign(createDesignId(), file.name.replace(/\.json$/i, '') || DEFAULT_DESIGN_NAME, design, false);
+        setOpenError(null);
+      } catch (err) {
+        if (err instanceof DesignParseError) {
+          setOpenError(`Could not open ${file.name}: ${err.message}`);
+        } else {
+          console.error('Error opening design:', err);
+          setOpenError(`Could not open ${file.name}`);
+        }
+      }
     };
-    
-    const dataStr = JSON.stringify(designData, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    
-    const link = document.createElement('a');
-    link.download = 'design.json';
-    link.href = url;
-    link.click();
-    
-    URL.revokeObjectURL(url);
+    reader.onerror = () => setOpenError(`Could not read ${file.name}`);
+    reader.readAsText(file);
   };
 
   return (
     <div className="fixed inset-0 w-screen h-screen bg-[#0f172a] overflow-y-auto">
-      <div className="w-full h-full px-4 sm:px-6 lg:px-8 py-4">
+      <div className="w-full h-full px-4 sm:px-6 lg:px-8 pt-4 pb-32 lg:pb-4">
         <div className="text-center mb-6">
           <h1 className="text-3xl font-bold text-white">Design Editor</h1>
           <p className="mt-2 text-sm text-gray-400">Customize your design with text and templates</p>
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+            <input
+              value={designName}
+              onChange={(e) => setDesignName(e.target.value)}
+              onBlur={() => !designName.trim() && setDesignName(DEFAULT_DESIGN_NAME)}
+              className="w-64 px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm text-center"
+              aria-label="Design name"
+            />
+            <span className="text-xs text-gray-400" aria-live="polite">
+              {autosave.status === 'saving' && 'Saving…'}
+              {autosave.status === 'saved' && 'All changes saved'}
+              {autosave.status === 'error' && <span className="text-red-400">Autosave failed</span>}
+            </span>
+            <button
+              onClick={() => onNavigate({ name: 'templates' })}
+              className="flex items-center px-3 py-1 text-sm text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600"
+            >
+              <Squares2X2Icon className="w-4 h-4 mr-1" />
+              Templates
+            </button>
+            <button
+              onClick={handleOpenLibrary}
+              className="flex items-center px-3 py-1 text-sm text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600"
+            >
+              <FolderOpenIcon className="w-4 h-4 mr-1" />
+              My designs
+            </button>
+          </div>
         </div>
         
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
           <div className="lg:col-span-8 space-y-6">
             <div className="bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700">
-              <div className="flex justify-between items-center mb-4">
+              <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
                 <h2 className="text-lg font-medium text-white">Preview</h2>
-                <button
-                  onClick={addNewText}
-                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-[#1e293b]"
-                >
-                  Add Text
-                </button>
-              </div>
-              <div
-                ref={designRef}
-                className="relative w-full aspect-[4/5] bg-[#0f172a] shadow-lg rounded-lg overflow-hidden cursor-move border border-gray-700"
-                onMouseMove={handleMouseMove}
-                onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
-              >
-                {template ? (
-                  <img
-                    src={template}
-                    alt="Template"
-                    className="absolute inset-0 w-full h-full object-cover"
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={history.undo}
+                    disabled={!history.canUndo}
+                    className="p-2 text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-gray-700 disabled:cursor-not-allowed"
+                    aria-label="Undo"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    <ArrowUturnLeftIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={history.redo}
+                    disabled={!history.canRedo}
+                    className="p-2 text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-gray-700 disabled:cursor-not-allowed"
+                    aria-label="Redo"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    <ArrowUturnRightIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={addNewText}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-[#1e293b]"
+                  >
+                    Add Text
+                  </button>
+                  <button
+                    onClick={() => imageInputRef.current?.click()}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-[#1e293b]"
+                  >
+                    Add Image
+                  </button>
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handleImageLayerUpload}
+                    className="hidden"
+                    aria-label="Upload image or logo layer"
                   />
-                ) : (
-                  <div className="absolute inset-0 bg-[#1e293b] flex items-center justify-center">
-                    <p className="text-gray-500">Upload a template to get started</p>
-                  </div>
-                )}
-                {texts.map((textStyle) => (
+                  <button
+                    onClick={addNewShape}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-[#1e293b]"
+                  >
+                    Add Shape
+                  </button>
+                </div>
+              </div>
+              <div ref={previewContainerRef} className="w-full flex justify-center">
+                <div
+                  ref={previewFrameRef}
+                  className="relative shadow-lg rounded-lg overflow-hidden ring-1 ring-gray-700"
+                  style={{ width: canvas.width * previewScale, height: canvas.height * previewScale }}
+                >
                   <div
-                    key={textStyle.id}
-                    className={`absolute inline-block transform -translate-x-1/2 -translate-y-1/2 ${
-                      selectedTextId === textStyle.id ? 'ring-2 ring-blue-500' : ''
+                    ref={designRef}
+                    role="group"
+                    aria-label="Canvas"
+                    className={`absolute top-0 left-0 bg-[#0f172a] overflow-hidden select-none touch-none ${
+                      pickColor ? 'cursor-crosshair [&_*]:!cursor-crosshair' : 'cursor-move'
                     }`}
                     style={{
-                      left: `${textStyle.position.x}%`,
-                      top: `${textStyle.position.y}%`,
-                      fontFamily: textStyle.fontFamily,
-                      fontSize: textStyle.fontSize,
-                      color: textStyle.color,
-                      fontWeight: textStyle.fontWeight,
-                      textAlign: textStyle.textAlign,
-                      textShadow: '2px 2px 4px rgba(0,0,0,0.5)',
-                      cursor: 'move',
-                      maxWidth: '100%',
-                      padding: '0',
-                      margin: '0',
-                      whiteSpace: 'nowrap',
-                      overflow: 'visible',
+                      width: canvas.width,
+                      height: canvas.height,
+                      transform: `translate(${viewport.pan.x}px, ${viewport.pan.y}px) scale(${displayScale})`,
+                      transformOrigin: 'top left',
                     }}
-                    onMouseDown={(e) => handleMouseDown(e, textStyle.id)}
+                    onPointerDownCapture={handleStagePointerDownCapture}
+                    onPointerDown={handleStagePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
                   >
-                    {textStyle.text}
+                    <CanvasBackground background={background} template={template} />
+                    {renderedLayers.map((layer) => {
+                      // Layers of the page or master that isn't being edited are shown but can't be picked up.
+                      const isEditable = layers.some(editable => editable.id === layer.id);
+                      return (
+                        <CanvasLayer
+                          key={layer.id}
+                          layer={layer}
+                          isSelected={selectedLayerIds.includes(layer.id)}
+                          onPointerDown={isEditable ? handleLayerPointerDown : undefined}
+                          onSelect={isEditable ? selectCanvasLayer : undefined}
+                          isTabStop={layer.id === tabStopId}
+                          describedBy="canvas-instructions"
+                        />
+                      );
+                    })}
+                    {selectedLayer && selectedSize && !selectedLayer.hidden && !selectedLayer.locked && (
+                      <TransformHandles
+                        center={getLayerCenter(selectedLayer)}
+                        size={selectedSize}
+                        rotation={selectedLayer.rotation}
+                        scale={displayScale}
+                        onResizeStart={handleResizeStart}
+                        onRotateStart={handleRotateStart}
+                      />
+                    )}
+                    {marquee && (
+                      <div
+                        data-editor-only="true"
+                        className="absolute border-blue-400 bg-blue-500/10 pointer-events-none"
+                        style={{ ...marquee, borderWidth: 1 / displayScale }}
+                      />
+                    )}
+                    {guides.map(guide => (
+                      <div
+                        key={`${guide.orientation}-${guide.position}`}
+                        data-editor-only="true"
+                        className="absolute bg-pink-500 pointer-events-none"
+                        style={guide.orientation === 'vertical'
+                          ? { left: guide.position, top: 0, bottom: 0, width: 1 / displayScale }
+                          : { top: guide.position, left: 0, right: 0, height: 1 / displayScale }}
+                      />
+                    ))}
+                    <SafeZoneOverlay canvas={canvas} visible={visibleSafeZones} scale={displayScale} />
+                    {layoutWarnings.map(({ layerId, bounds }) => (
+                      <div
+                        key={layerId}
+                        data-editor-only="true"
+                        className="absolute border-dashed border-amber-400 pointer-events-none"
+                        style={{ ...bounds, borderWidth: 2 / displayScale }}
+                      />
+                    ))}
+                    {playbackScene && <AnimationPreview scene={playbackScene} onEnd={stopPlayback} onError={setPlaybackError} />}
                   </div>
-                ))}
+                </div>
+              </div>
+              <div className="mt-3 flex items-center justify-center space-x-2 text-sm text-gray-300">
+                <button
+                  onClick={() => viewport.zoomBy(1 / ZOOM_STEP)}
+                  disabled={!viewport.isZoomed}
+                  className="p-1.5 rounded-md bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-gray-700"
+                  aria-label="Zoom out"
+                  title="Zoom out"
+                >
+                  <MagnifyingGlassMinusIcon className="w-4 h-4" />
+                </button>
+                <span className="w-12 text-center tabular-nums" aria-live="polite">
+                  {Math.round(viewport.zoom * 100)}%
+                </span>
+                <button
+                  onClick={() => viewport.zoomBy(ZOOM_STEP)}
+                  className="p-1.5 rounded-md bg-gray-700 hover:bg-gray-600"
+                  aria-label="Zoom in"
+                  title="Zoom in"
+                >
+                  <MagnifyingGlassPlusIcon className="w-4 h-4" />
+                </button>
+                {viewport.isZoomed && (
+                  <button onClick={viewport.reset} className="px-2 py-1 text-blue-400 hover:text-blue-300">
+                    Fit
+                  </button>
+                )}
+              </div>
+              <p className="sr-only" aria-live="polite">{selectionAnnouncement}</p>
+              <PageStrip
+                design={shownDesign}
+                currentPageId={page.id}
+                isEditingMaster={isEditingMaster}
+                onSelect={selectPage}
+                onEditMaster={editMasterLayers}
+                onAdd={() => insertPage(createPage({ background }))}
+                onDuplicate={(id) => {
+                  const original = pages.find(other => other.id === id);
+                  if (original) insertPage(duplicatePage(original));
+                }}
+                onDelete={deletePage}
+                onMove={handleMovePage}
+              />
+              {isEditingMaster && (
+                <div className="mt-1 px-3 py-2 text-sm text-blue-200 bg-blue-900/40 border border-blue-700 rounded-md">
+                  Editing master layers, shown on every page. Use <code className="text-white">{'{{page}}'}</code> and{' '}
+                  <code className="text-white">{'{{pages}}'}</code> in text for a page counter.
+                </div>
+              )}
+              <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-sm">
+                <span className="text-gray-400">Safe zones:</span>
+                {SAFE_ZONES.map(zone => {
+                  const isVisible = visibleSafeZones.includes(zone.id);
+                  return (
+                    <button
+                      key={zone.id}
+                      onClick={() => setVisibleSafeZones(ids => isVisible ? ids.filter(id => id !== zone.id) : [...ids, zone.id])}
+                      aria-pressed={isVisible}
+                      title={zone.description}
+                      className={`px-2 py-1 rounded-md ${
+                        isVisible ? 'bg-red-700 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                      }`}
+                    >
+                      {zone.label}
+                    </button>
+                  );
+                })}
+                <button
+                  onClick={() => setIsFeedPreviewOpen(true)}
+                  className="flex items-center px-2 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600"
+                >
+                  <DevicePhoneMobileIcon className="w-4 h-4 mr-1" />
+                  Preview in feed
+                </button>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-sm">
+                <span className="text-gray-400">Animation:</span>
+                <button
+                  onClick={() => {
+                    setPlaybackError(null);
+                    setIsPlaying(playing => !playing);
+                  }}
+                  disabled={!isPlaying && !renderedLayers.some(isAnimated)}
+                  className="flex items-center px-2 py-1 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-gray-700 disabled:cursor-not-allowed"
+                  title={renderedLayers.some(isAnimated) ? undefined : 'Add an entrance or exit animation to a layer first'}
+                >
+                  {isPlaying ? <StopIcon className="w-4 h-4 mr-1" /> : <PlayIcon className="w-4 h-4 mr-1" />}
+                  {isPlaying ? 'Stop' : 'Play'}
+                </button>
+                <label htmlFor="timeline-duration" className="text-gray-400">Length</label>
+                <select
+                  id="timeline-duration"
+                  value={duration}
+                  onChange={(e) => history.update(design => ({ ...design, duration: Number(e.target.value) }))}
+                  className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white"
+                >
+                  {Array.from({ length: MAX_TIMELINE_DURATION - MIN_TIMELINE_DURATION + 1 }, (_, index) => MIN_TIMELINE_DURATION + index).map(length => (
+                    <option key={length} value={length}>{length}s</option>
+                  ))}
+                </select>
               </div>
+              {playbackError && (
+                <div role="alert" className="mt-2 px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+                  {playbackError}
+                </div>
+              )}
+              {layoutWarnings.length > 0 && (
+                <ul className="mt-3 px-3 py-2 space-y-1 text-sm text-amber-200 bg-amber-900/30 border border-amber-700 rounded-md">
+                  {layoutWarnings.map(({ layerId, issues }) => {
+                    const layer = renderedLayers.find(l => l.id === layerId);
+                    return layer && issues.map(issue => (
+                      <li key={`${layerId}-${issue}`} className="flex items-start space-x-2">
+                        <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />
+                        <button
+                          onClick={() => focusLayer(layerId)}
+                          className="text-left hover:text-white"
+                        >
+                          {getLayerLabel(layer)} {LAYOUT_ISSUE_LABELS[issue]}
+                        </button>
+                      </li>
+                    ));
+                  })}
+                </ul>
+              )}
+              {contrastIssues.length > 0 && (
+                <ul className="mt-3 px-3 py-2 space-y-2 text-sm text-amber-200 bg-amber-900/30 border border-amber-700 rounded-md">
+                  {contrastIssues.map(({ layerId, ratio, required, suggestedColor, backdrop }) => {
+                    const layer = renderedLayers.find(l => l.id === layerId);
+                    return layer?.type === 'text' && (
+                      <li key={layerId} className="flex items-start space-x-2">
+                        <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />
+                        <div className="min-w-0">
+                          <button
+                            onClick={() => focusLayer(layerId)}
+                            className="text-left hover:text-white"
+                          >
+                            {getLayerLabel(layer)} is hard to read: contrast {formatRatio(ratio)}, needs {formatRatio(required)}
+                          </button>
+                          <div className="mt-1 flex flex-wrap gap-2">
+                            {suggestedColor && (
+                              <button
+                                onClick={() => updateShownLayer(layerId, { color: suggestedColor })}
+                                className="flex items-center px-2 py-0.5 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+                              >
+                                <span
+                                  className="w-3 h-3 mr-1 rounded-sm border border-gray-500"
+                                  style={{ backgroundColor: suggestedColor }}
+                                  aria-hidden="true"
+                                />
+                                Use {suggestedColor}
+                              </button>
+                            )}
+                            <button
+                              onClick={() => updateShownLayer(layerId, { background: backdrop })}
+                              className="px-2 py-0.5 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+                            >
+                              {layer.background ? 'Change backdrop' : 'Add backdrop'}
+                            </button>
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {previewRow && (
+                <div className="mt-3 flex items-center justify-between px-3 py-2 text-sm text-blue-200 bg-blue-900/40 border border-blue-700 rounded-md">
+                  <span>Previewing a CSV row. Edits still apply to the placeholders.</span>
+                  <button onClick={() => setPreviewRow(null)} className="text-blue-300 hover:text-white">
+                    Stop preview
+                  </button>
+                </div>
+              )}
+              <p id="canvas-instructions" className="mt-3 text-xs text-gray-400 text-center">
+                Tab through the layers on the canvas, Enter or Space selects, arrow keys move the selection and Shift+Enter adds to it.{' '}
+                Drag corners to resize (Shift keeps proportions), drag the top handle to rotate, hold Alt to move without snapping. Shift-click or drag across empty canvas to select several. Pinch or Ctrl+scroll to zoom.{' '}
+                <button onClick={() => setIsShortcutsOpen(true)} className="text-blue-400 hover:text-blue-300">
+                  Keyboard shortcuts (?)
+                </button>
+              </p>
             </div>
 
+            <LayerPanel
+              title={isEditingMaster ? 'Master Layers' : pages.length > 1 ? `Page ${pageIndex + 1} Layers` : 'Layers'}
+              layers={layers}
+              selectedLayerIds={selectedLayerIds}
+              onSelect={(id, extend) => setSelectedLayerIds(ids => {
+                if (!extend) return [id];
+                return ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+              })}
+              onChange={(id, updates) => updateLayer(id, updates)}
+              onMove={handleMoveLayer}
+            />
+
             <div className="bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700">
               <h2 className="text-lg font-medium text-white mb-4">Quick Position</h2>
               <div className="grid grid-cols-3 gap-2">
                 {PRESET_POSITIONS.map((pos) => (
                   <button
                     key={pos.name}
-                    onClick={() => selectedTextId && updateText(selectedTextId, { position: { x: pos.x, y: pos.y } })}
+                    onClick={() => selectedLayerId && updateLayer(selectedLayerId, { position: { x: pos.x, y: pos.y } })}
                     className="px-3 py-2 text-sm rounded bg-[#0f172a] hover:bg-[#1e293b] text-gray-200 border border-gray-600 transition-colors duration-200"
                   >
                     {pos.name}
@@ -312,89 +1569,172 @@ export default function DesignEditor({ defaultTemplate }: DesignEditorProps) {
                 ))}
               </div>
             </div>
+
+            <BrandKitPanel
+              kits={brandKits.kits}
+              fontFamilies={allFonts}
+              activeKit={activeKit}
+              storageError={brandKits.error}
+              onSelect={brandKits.selectKit}
+              onSave={brandKits.saveKit}
+              onDelete={brandKits.removeKit}
+              onInsertLogo={insertBrandLogo}
+            />
+
+            <BulkGeneratePanel
+              placeholders={findPlaceholders([...page.layers, ...masterLayers]).filter(name => !PAGE_PLACEHOLDERS.includes(name))}
+              previewRow={previewRow}
+              onPreviewRow={setPreviewRow}
+              onExport={handleBulkExport}
+            />
           </div>
 
-          <div className="lg:col-span-4 bg-[#1e293b] rounded-lg shadow-lg p-6 space-y-6 border border-gray-700">
+          <div
+            className={`fixed inset-x-0 bottom-0 z-30 rounded-t-2xl bg-[#1e293b] shadow-lg p-6 space-y-6 border border-gray-700 ${
+              isSheetOpen ? 'max-h-[70vh] overflow-y-auto' : 'max-h-20 overflow-hidden'
+            } lg:static lg:z-auto lg:col-span-4 lg:max-h-none lg:overflow-visible lg:rounded-lg`}
+          >
             <div className="flex justify-between items-center">
-              <h2 className="text-lg font-medium text-white">Text Editor</h2>
-              {selectedTextId && (
+              <h2 className="text-lg font-medium text-white">Properties</h2>
+              <div className="flex items-center space-x-3">
+                {selectedLayers.length > 0 && (
+                  <button
+                    onClick={() => deleteLayers(selectedLayerIds)}
+                    className="text-sm text-red-400 hover:text-red-300"
+                  >
+                    {selectedLayers.length > 1 ? `Delete ${selectedLayers.length} Layers` : 'Delete Layer'}
+                  </button>
+                )}
                 <button
-                  onClick={() => deleteText(selectedTextId)}
-                  className="text-sm text-red-400 hover:text-red-300"
+                  onClick={() => setIsSheetOpen(open => !open)}
+                  className="lg:hidden p-1 text-gray-300 rounded hover:text-white hover:bg-gray-700"
+                  aria-label={isSheetOpen ? 'Collapse properties' : 'Expand properties'}
+                  aria-expanded={isSheetOpen}
                 >
-                  Delete Text
+                  {isSheetOpen ? <ChevronDownIcon className="w-5 h-5" /> : <ChevronUpIcon className="w-5 h-5" />}
                 </button>
-              )}
+              </div>
             </div>
             
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">
-                Upload Template
-              </label>
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleTemplateUpload}
-                className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
-                aria-label="Upload template image"
-                title="Upload template image"
+            <CanvasFormatPicker size={canvas} onChange={handleCanvasSizeChange} />
+
+            {/* Clicking empty canvas clears the selection and brings the background settings back. */}
+            {selectedLayers.length === 0 && (
+              <BackgroundControls
+                background={background}
+                hasImage={Boolean(template)}
+                onChange={handleBackgroundChange}
+                onImageUpload={handleTemplateUpload}
+                onImageRemove={() => editPage({ template: undefined })}
               />
-            </div>
+            )}
+
+            {selectedLayers.length > 0 && (
+              <ArrangeControls
+                unitCount={new Set(selectedLayers.map(layer => layer.groupId || layer.id)).size}
+                canGroup={canGroup}
+                canUngroup={canUngroup}
+                onAlign={alignSelection}
+                onDistribute={distributeSelection}
+                onGroup={groupSelection}
+                onUngroup={ungroupSelection}
+              />
+            )}
+
+            {selectedLayer && (
+              <LayerTransformControls
+                layer={selectedLayer}
+                onChange={(updates, coalesceKey) => updateLayer(selectedLayer.id, updates, coalesceKey)}
+              />
+            )}
+
+            {selectedLayer?.type === 'image' && (
+              <ImageLayerControls
+                layer={selectedLayer}
+                onChange={(updates) => updateLayer(selectedLayer.id, updates)}
+              />
+            )}
 
-            {selectedTextId && (
+            {selectedLayer?.type === 'shape' && (
+              <ShapeLayerControls
+                layer={selectedLayer}
+                onChange={(updates, coalesceKey) => updateLayer(selectedLayer.id, updates, coalesceKey)}
+              />
+            )}
+
+            {selectedLayer?.type === 'text' && (
               <>
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                  <label htmlFor="layer-text" className="block text-sm font-medium text-gray-300 mb-2">
                     Enter Text
                   </label>
                   <textarea
-                    value={texts.find(t => t.id === selectedTextId)?.text || ''}
-                    onChange={(e) => updateText(selectedTextId, { text: e.target.value })}
+                    id="layer-text"
+                    value={selectedLayer.text}
+                    onChange={(e) => updateLayer(selectedLayer.id, { text: e.target.value }, `text:${selectedLayer.id}`)}
+                    onFocus={history.checkpoint}
                     className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-white placeholder-gray-400"
                     rows={4}
                     placeholder="Enter your text here"
                   />
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Font Family
-                  </label>
-                  <div className="max-h-48 overflow-y-auto border border-gray-600 rounded-md bg-gray-700">
-                    <div className="sticky top-0 bg-gray-800 px-4 py-2 text-xs font-medium text-gray-400 border-b border-gray-600 z-10">
-                      Display & Decorative
+                {activeKit && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Brand Styles
+                    </label>
+                    <div className="flex space-x-2">
+                      {BRAND_TEXT_ROLES.map(({ role, label }) => (
+                        <button
+                          key={role}
+                          onClick={() => updateLayer(selectedLayer.id, { ...activeKit.textStyles[role], gradient: null })}
+                          className="flex-1 px-3 py-2 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 text-sm"
+                          style={{ fontFamily: getFontStack(activeKit.textStyles[role].fontFamily) }}
+                        >
+                          {label}
+                        </button>
+                      ))}
                     </div>
-                    {FONT_FAMILIES.map(font => (
-                      <button
-                        key={font}
-                        onClick={() => updateText(selectedTextId, { fontFamily: font })}
-                        className={`w-full px-4 py-3 text-left border-b border-gray-600 ${
-                          texts.find(t => t.id === selectedTextId)?.fontFamily === font 
-                            ? 'bg-blue-600 text-white' 
-                            : 'text-gray-200 hover:text-gray-900 hover:bg-gray-600'
-                        }`}
-                        style={{ fontFamily: font }}
-                      >
-                        <div className="text-sm">{font}</div>
-                        <div className="text-lg mt-1">
-                          Sample Text
-                        </div>
-                      </button>
-                    ))}
                   </div>
-                </div>
+                )}
+
+                <TextBoxControls
+                  layer={selectedLayer}
+                  measuredSize={selectedSize && {
+                    width: (selectedSize.width / canvas.width) * 100,
+                    height: (selectedSize.height / canvas.height) * 100,
+                  }}
+                  onChange={(updates) => updateLayer(selectedLayer.id, updates)}
+                />
+
+                <FontPicker
+                  value={selectedLayer.fontFamily}
+                  families={fontChoices}
+                  customFonts={customFonts.fonts}
+                  error={customFonts.error}
+                  onChange={(fontFamily) => updateLayer(selectedLayer.id, { fontFamily })}
+                  onUpload={async (file) => {
+                    const font = await customFonts.uploadFont(file);
+                    if (font) updateLayer(selectedLayer.id, { fontFamily: font.family });
+                  }}
+                  onRemove={customFonts.removeFont}
+                />
 
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
                     Font Size
                   </label>
                   <select
-                    value={texts.find(t => t.id === selectedTextId)?.fontSize}
-                    onChange={(e) => updateText(selectedTextId, { fontSize: e.target.value })}
+                    value={selectedLayer.fontSize}
+                    onChange={(e) => updateLayer(selectedLayer.id, { fontSize: e.target.value })}
                     className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-white"
                     aria-label="Select font size"
                     title="Select font size"
                   >
+                    {!FONT_SIZES.includes(selectedLayer.fontSize) && (
+                      <option value={selectedLayer.fontSize}>{selectedLayer.fontSize}</option>
+                    )}
                     {FONT_SIZES.map(size => (
                       <option key={size} value={size}>{size}</option>
                     ))}
@@ -406,8 +1746,8 @@ export default function DesignEditor({ defaultTemplate }: DesignEditorProps) {
                     Font Weight
                   </label>
                   <select
-                    value={texts.find(t => t.id === selectedTextId)?.fontWeight}
-                    onChange={(e) => updateText(selectedTextId, { fontWeight: e.target.value })}
+                    value={selectedLayer.fontWeight}
+                    onChange={(e) => updateLayer(selectedLayer.id, { fontWeight: e.target.value })}
                     className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-white"
                     aria-label="Select font weight"
                     title="Select font weight"
@@ -418,140 +1758,34 @@ export default function DesignEditor({ defaultTemplate }: DesignEditorProps) {
                   </select>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Text Color
-                  </label>
-                  <div className="space-y-4">
-                    {/* Custom Color Input */}
-                    <div className="flex space-x-2">
-                      <div className="flex-1">
-                        <label className="block text-xs text-gray-400 mb-1">Custom Color</label>
-                        <div className="flex space-x-2">
-                          <input
-                            type="text"
-                            value={customColor}
-                            onChange={(e) => setCustomColor(e.target.value)}
-                            placeholder="#000000 or rgb(0,0,0)"
-                            className="flex-1 px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
-                          />
-                          <input
-                            type="color"
-                            value={customColor}
-                            onChange={(e) => {
-                              setCustomColor(e.target.value);
-                              updateText(selectedTextId, { color: e.target.value });
-                            }}
-                            className="h-8 w-8 bg-gray-700 border border-gray-600 rounded cursor-pointer"
-                            title="Color picker"
-                          />
-                          <button
-                            onClick={() => updateText(selectedTextId, { color: customColor })}
-                            className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
-                          >
-                            Apply
-                          </button>
-                        </div>
-                      </div>
-                    </div>
-
-                    {/* Color Categories */}
-                    <div className="space-y-3">
-                      <div>
-                        <label className="block text-xs text-gray-400 mb-1">Primary Colors</label>
-                        <div className="grid grid-cols-8 gap-2">
-                          {TEXT_COLORS.slice(0, 6).map(color => (
-                            <button
-                              key={color}
-                              onClick={() => updateText(selectedTextId, { color })}
-                              className={`w-8 h-8 rounded-lg border-2 ${
-                                texts.find(t => t.id === selectedTextId)?.color === color ? 'border-blue-500' : 'border-transparent'
-                              }`}
-                              style={{ backgroundColor: color }}
-                              title={color}
-                            />
-                          ))}
-                        </div>
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-400 mb-1">Warm Colors</label>
-                        <div className="grid grid-cols-8 gap-2">
-                          {TEXT_COLORS.slice(6, 20).map(color => (
-                            <button
-                              key={color}
-                              onClick={() => updateText(selectedTextId, { color })}
-                              className={`w-8 h-8 rounded-lg border-2 ${
-                                texts.find(t => t.id === selectedTextId)?.color === color ? 'border-blue-500' : 'border-transparent'
-                              }`}
-                              style={{ backgroundColor: color }}
-                              title={color}
-                            />
-                          ))}
-                        </div>
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-400 mb-1">Cool Colors</label>
-                        <div className="grid grid-cols-8 gap-2">
-                          {TEXT_COLORS.slice(20, 34).map(color => (
-                            <button
-                              key={color}
-                              onClick={() => updateText(selectedTextId, { color })}
-                              className={`w-8 h-8 rounded-lg border-2 ${
-                                texts.find(t => t.id === selectedTextId)?.color === color ? 'border-blue-500' : 'border-transparent'
-                              }`}
-                              style={{ backgroundColor: color }}
-                              title={color}
-                            />
-                          ))}
-                        </div>
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-400 mb-1">Pastel Colors</label>
-                        <div className="grid grid-cols-8 gap-2">
-                          {TEXT_COLORS.slice(34, 48).map(color => (
-                            <button
-                              key={color}
-                              onClick={() => updateText(selectedTextId, { color })}
-                              className={`w-8 h-8 rounded-lg border-2 ${
-                                texts.find(t => t.id === selectedTextId)?.color === color ? 'border-blue-500' : 'border-transparent'
-                              }`}
-                              style={{ backgroundColor: color }}
-                              title={color}
-                            />
-                          ))}
-                        </div>
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-400 mb-1">Rich Colors</label>
-                        <div className="grid grid-cols-8 gap-2">
-                          {TEXT_COLORS.slice(48).map(color => (
-                            <button
-                              key={color}
-                              onClick={() => updateText(selectedTextId, { color })}
-                              className={`w-8 h-8 rounded-lg border-2 ${
-                                texts.find(t => t.id === selectedTextId)?.color === color ? 'border-blue-500' : 'border-transparent'
-                              }`}
-                              style={{ backgroundColor: color }}
-                              title={color}
-                            />
-                          ))}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
+                <TextColorControls
+                  layer={selectedLayer}
+                  brandColors={brandColors}
+                  recentColors={recentColors.colors}
+                  contrast={selectedContrast}
+                  isPicking={pickColor !== null}
+                  onChange={(updates, coalesceKey) => updateLayer(selectedLayer.id, updates, coalesceKey)}
+                  onColorUsed={recentColors.addColor}
+                  onPick={(apply) => setPickColor(() => apply)}
+                  onSaveToKit={activeKit ? (color) => brandKits.saveKit({
+                    ...activeKit,
+                    colors: [...activeKit.colors, { name: color, value: color }],
+                  }) : undefined}
+                  kitName={activeKit?.name}
+                />
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                  <label id="text-alignment-label" className="block text-sm font-medium text-gray-300 mb-2">
                     Text Alignment
                   </label>
-                  <div className="flex space-x-2">
+                  <div className="flex space-x-2" role="group" aria-labelledby="text-alignment-label">
                     {['left', 'center', 'right'].map((align) => (
                       <button
                         key={align}
-                        onClick={() => updateText(selectedTextId, { textAlign: align as 'left' | 'center' | 'right' })}
+                        onClick={() => updateLayer(selectedLayer.id, { textAlign: align as 'left' | 'center' | 'right' })}
+                        aria-pressed={selectedLayer.textAlign === align}
                         className={`px-4 py-2 rounded ${
-                          texts.find(t => t.id === selectedTextId)?.textAlign === align
+                          selectedLayer.textAlign === align
                             ? 'bg-blue-600 text-white'
                             : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
                         }`}
@@ -561,35 +1795,138 @@ export default function DesignEditor({ defaultTemplate }: DesignEditorProps) {
                     ))}
                   </div>
                 </div>
+
+                <TextStyleControls
+                  layer={selectedLayer}
+                  onChange={(updates, coalesceKey) => updateLayer(selectedLayer.id, updates, coalesceKey)}
+                />
               </>
             )}
 
+            {selectedLayer && (
+              <AnimationControls
+                layer={selectedLayer}
+                timelineDuration={duration}
+                onChange={(updates, coalesceKey) => updateLayer(selectedLayer.id, updates, coalesceKey)}
+              />
+            )}
+
             <div className="relative">
+              {isDownloadMenuOpen && (
+                <ExportMenu
+                  options={exportOptions}
+                  onChange={setExportOptions}
+                  fileName={exportFileName}
+                  defaultFileName={defaultExportFileName}
+                  onFileNameChange={setExportFileName}
+                  canBeTransparent={!template}
+                  pageCount={pages.length}
+                />
+              )}
               <div className="flex space-x-2">
-                <button
-                  onClick={handleDownloadPNG}
-                  disabled={!template || texts.length === 0}
-                  className="flex-1 flex items-center justify-center px-4 py-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
-                >
-                  <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
-                  Download as PNG
-                </button>
+                <div className="flex-1 flex">
+                  <button
+                    onClick={handleDownload}
+                    disabled={isExporting}
+                    className="flex-1 flex items-center justify-center px-4 py-3 border border-transparent rounded-l-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
+                    {isExporting ? 'Exporting…' : exportLabel}
+                  </button>
+                  <button
+                    onClick={() => setIsDownloadMenuOpen(open => !open)}
+                    disabled={isExporting}
+                    aria-expanded={isDownloadMenuOpen}
+                    aria-label="Export options"
+                    className="px-2 py-3 border-l border-blue-700 rounded-r-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:text-gray-400 disabled:border-gray-600 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    <ChevronDownIcon className={`w-5 h-5 transition-transform ${isDownloadMenuOpen ? 'rotate-180' : ''}`} />
+                  </button>
+                </div>
                 <button
                   onClick={handleDownloadJSON}
-                  disabled={!template || texts.length === 0}
                   className="flex items-center justify-center px-4 py-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 focus:ring-offset-gray-800 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
                 >
                   <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
                   Download as JSON
                 </button>
               </div>
+              <button
+                onClick={() => openInputRef.current?.click()}
+                className="mt-2 w-full flex items-center justify-center px-4 py-3 border border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-200 bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 focus:ring-offset-gray-800 transition-colors duration-200"
+              >
+                <ArrowUpTrayIcon className="w-5 h-5 mr-2" />
+                Open design
+              </button>
+              <button
+                onClick={handleCopyShareLink}
+                className="mt-2 w-full flex items-center justify-center px-4 py-3 border border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-200 bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 focus:ring-offset-gray-800 transition-colors duration-200"
+              >
+                <LinkIcon className="w-5 h-5 mr-2" />
+                Copy share link
+              </button>
+              {shareNotice && (
+                <div className="mt-2 text-xs text-gray-400 text-center" aria-live="polite">
+                  {shareNotice}
+                </div>
+              )}
+              {shareError && (
+                <div role="alert" className="mt-2 px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+                  {shareError}
+                </div>
+              )}
+              <input
+                ref={openInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleOpenDesign}
+                className="hidden"
+                aria-label="Open design JSON"
+              />
+              {exportError && (
+                <div role="alert" className="mt-2 px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+                  {exportError}
+                </div>
+              )}
+              {openError && (
+                <div role="alert" className="mt-2 px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+                  {openError}
+                </div>
+              )}
               <div className="mt-2 text-xs text-gray-400 text-center">
-                PNG for image export, JSON for saving editable design
+                PNG, JPEG, WebP, SVG or PDF for sharing, JSON for saving editable design
               </div>
             </div>
           </div>
         </div>
       </div>
+      {isShortcutsOpen && <ShortcutsDialog onClose={() => setIsShortcutsOpen(false)} />}
+      {isFeedPreviewOpen && (
+        <FeedPreview
+          design={shownDesign}
+          pageIndex={pageIndex}
+          accountName={activeKit?.name ?? 'Your Brand'}
+          onClose={() => setIsFeedPreviewOpen(false)}
+        />
+      )}
+      {isLibraryOpen && (
+        <DesignLibrary
+          currentDesignId={designId}
+          onOpen={handleOpenSavedDesign}
+          onNew={handleNewDesign}
+          onDeleted={(id) => id === designId && openNewDesign(createDesignId(), DEFAULT_DESIGN_NAME, createBlankDesign(), true)}
+          onRenamed={(id, name) => id === designId && setDesignName(name)}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+      {isGalleryOpen && (
+        <TemplateGallery
+          error={galleryError}
+          onPick={handlePickTemplate}
+          onBlank={handleNewDesign}
+          onClose={closeGallery}
+        />
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
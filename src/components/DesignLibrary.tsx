@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DocumentDuplicateIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { DesignParseError } from '../lib/design';
+import {
+  deleteDesign,
+  duplicateDesign,
+  listDesigns,
+  renameDesign,
+  type SavedDesignSummary,
+} from '../lib/designStore';
+
+interface DesignLibraryProps {
+  currentDesignId: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  onRenamed: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const formatLastEdited = (timestamp: number): string => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+export default function DesignLibrary({ currentDesignId, onOpen, onNew, onDeleted, onRenamed, onClose }: DesignLibraryProps) {
+  const [designs, setDesigns] = useState<SavedDesignSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDesigns(await listDesigns());
+    } catch (err) {
+      console.error('Error listing designs:', err);
+      setError('Saved designs are unavailable in this browser.');
+      setDesigns([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // The name field isn't controlled, so a blank or failed rename puts the saved name back in it.
+  const handleRename = async (design: SavedDesignSummary, input: HTMLInputElement) => {
+    const trimmed = input.value.trim();
+    if (!trimmed) input.value = design.name;
+    if (!trimmed || trimmed === design.name) return;
+    try {
+      await renameDesign(design.id, trimmed);
+      onRenamed(design.id, trimmed);
+      setError(null);
+    } catch (err) {
+      console.error('Error renaming design:', err);
+      setError(`"${design.name}" could not be renamed.`);
+      input.value = design.name;
+    }
+    await refresh();
+  };
+
+  const handleDuplicate = async (design: SavedDesignSummary) => {
+    try {
+      await duplicateDesign(design.id);
+      setError(null);
+    } catch (err) {
+      console.error('Error duplicating design:', err);
+      setError(err instanceof DesignParseError
+        ? `"${design.name}" could not be duplicated: ${err.message}`
+        : `"${design.name}" could not be duplicated.`);
+    }
+    await refresh();
+  };
+
+  const handleDelete = async (design: SavedDesignSummary) => {
+    if (!window.confirm(`Delete "${design.name}"? This can't be undone.`)) return;
+    try {
+      await deleteDesign(design.id);
+      onDeleted(design.id);
+      setError(null);
+    } catch (err) {
+      console.error('Error deleting design:', err);
+      setError(`"${design.name}" could not be deleted.`);
+    }
+    await refresh();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="design-library-title"
+    >
+      <div
+        className="w-full max-w-4xl max-h-full overflow-y-auto bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="design-library-title" className="text-lg font-medium text-white">My Designs</h2>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={onNew}
+              className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              <PlusIcon className="w-5 h-5 mr-1" />
+              New design
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 rounded-md hover:text-white hover:bg-gray-700"
+              aria-label="Close"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div role="alert" className="mb-4 px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {designs === null ? (
+          <p className="text-sm text-gray-400">Loading…</p>
+        ) : designs.length === 0 ? (
+          <p className="text-sm text-gray-400">Designs are saved here automatically as you edit.</p>
+        ) : (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {designs.map(design => (
+              <li
+                key={design.id}
+                className={`flex flex-col bg-[#0f172a] rounded-lg border overflow-hidden ${
+                  design.id === currentDesignId ? 'border-blue-500' : 'border-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => onOpen(design.id)}
+                  className="aspect-square bg-gray-800 flex items-center justify-center overflow-hidden"
+                  aria-label={`Open ${design.name}`}
+                >
+                  {design.thumbnail ? (
+                    <img src={design.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                  ) : (
+                    <span className="text-xs text-gray-500">No preview</span>
+                  )}
+                </button>
+                <div className="p-2 space-y-1">
+                  <input
+                    defaultValue={design.name}
+                    onBlur={(e) => handleRename(design, e.target)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="w-full px-1 py-0.5 bg-transparent border border-transparent rounded text-sm text-white hover:border-gray-600 focus:border-blue-500 focus:outline-none"
+                    aria-label="Design name"
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="px-1 text-xs text-gray-400">{formatLastEdited(design.updatedAt)}</span>
+                    <div className="flex items-center text-gray-400">
+                      <button
+                        onClick={() => handleDuplicate(design)}
+                        className="p-1 rounded hover:text-white hover:bg-gray-600"
+                        aria-label={`Duplicate ${design.name}`}
+                        title="Duplicate"
+                      >
+                        <DocumentDuplicateIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(design)}
+                        className="p-1 rounded hover:text-red-300 hover:bg-gray-600"
+                        aria-label={`Delete ${design.name}`}
+                        title="Delete"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { Design } from '../lib/design';
+import { getMasterLayersForPage } from '../lib/pages';
+import CanvasBackground from './CanvasBackground';
+import CanvasLayer from './CanvasLayer';
+
+interface DesignPreviewProps {
+  design: Design;
+  // The preview is fitted inside a square of this many pixels.
+  size: number;
+  pageIndex?: number;
+}
+
+// A live, non-interactive rendering of one page of a design at thumbnail size.
+export default function DesignPreview({ design, size, pageIndex = 0 }: DesignPreviewProps) {
+  const { canvas, pages } = design;
+  const page = pages[pageIndex] ?? pages[0];
+  const layers = [...page.layers, ...getMasterLayersForPage(design.masterLayers, pageIndex, pages.length)];
+  const scale = Math.min(size / canvas.width, size / canvas.height);
+
+  return (
+    <div className="relative overflow-hidden" style={{ width: canvas.width * scale, height: canvas.height * scale }}>
+      <div
+        className="absolute top-0 left-0 pointer-events-none"
+        style={{ width: canvas.width, height: canvas.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+      >
+        <CanvasBackground background={page.background} template={page.template} />
+        {layers.map(layer => (
+          <CanvasLayer key={layer.id} layer={layer} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { EXPORT_FORMATS, EXPORT_SCALES, getExportFormat, type ExportOptions } from '../lib/exportImage';
+
+interface ExportMenuProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  fileName: string;
+  // Shown when the file name is left empty.
+  defaultFileName: string;
+  onFileNameChange: (fileName: string) => void;
+  // Transparency only makes sense when there's no template image behind the layers.
+  canBeTransparent: boolean;
+  pageCount: number;
+}
+
+export default function ExportMenu({
+  options,
+  onChange,
+  fileName,
+  defaultFileName,
+  onFileNameChange,
+  canBeTransparent,
+  pageCount,
+}: ExportMenuProps) {
+  const format = getExportFormat(options.format);
+  const exportsZip = pageCount > 1 && options.allPages && options.format !== 'pdf';
+
+  return (
+    <div className="absolute bottom-full right-0 left-0 mb-2 z-20 bg-gray-800 border border-gray-600 rounded-md shadow-lg p-4 space-y-4">
+      {pageCount > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Pages
+          </label>
+          <div className="flex space-x-2">
+            {[
+              { allPages: true, label: `All ${pageCount} pages` },
+              { allPages: false, label: 'Current page' },
+            ].map(({ allPages, label }) => (
+              <button
+                key={label}
+                onClick={() => onChange({ ...options, allPages })}
+                aria-pressed={options.allPages === allPages}
+                className={`flex-1 px-2 py-1 rounded text-sm ${
+                  options.allPages === allPages
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-400">
+            {options.format === 'pdf' ? 'One page per slide in a single PDF.' : 'Numbered images in a ZIP.'}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Format
+        </label>
+        <div className="grid grid-cols-4 gap-1">
+          {EXPORT_FORMATS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onChange({ ...options, format: id })}
+              aria-pressed={options.format === id}
+              className={`px-2 py-1 rounded text-sm ${
+                options.format === id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {format.animated && (
+          <p className="mt-1 text-xs text-gray-400">
+            Plays each layer's entrance and exit animations over the design's timeline, at the canvas size.
+          </p>
+        )}
+      </div>
+
+      {format.lossy && (
+        <div>
+          <label className="flex justify-between text-sm font-medium text-gray-300 mb-2" htmlFor="export-quality">
+            <span>Quality</span>
+            <span className="text-gray-400">{Math.round(options.quality * 100)}%</span>
+          </label>
+          <input
+            id="export-quality"
+            type="range"
+            min={10}
+            max={100}
+            value={Math.round(options.quality * 100)}
+            onChange={(e) => onChange({ ...options, quality: Number(e.target.value) / 100 })}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {!format.vector && !format.animated && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Scale
+          </label>
+          <div className="flex space-x-2">
+            {EXPORT_SCALES.map(scale => (
+              <button
+                key={scale}
+                onClick={() => onChange({ ...options, scale })}
+                aria-pressed={options.scale === scale}
+                className={`flex-1 px-2 py-1 rounded text-sm ${
+                  options.scale === scale
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                }`}
+              >
+                {scale}x
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="export-file-name">
+          File name
+        </label>
+        <div className="flex items-center">
+          <input
+            id="export-file-name"
+            value={fileName}
+            onChange={(e) => onFileNameChange(e.target.value)}
+            placeholder={defaultFileName}
+            className="flex-1 min-w-0 px-3 py-1 bg-gray-700 border border-gray-600 rounded-l-md text-white text-sm placeholder-gray-400"
+          />
+          <span className="px-2 py-1 bg-gray-600 border border-gray-600 rounded-r-md text-sm text-gray-300">
+            .{exportsZip ? 'zip' : format.extension}
+          </span>
+        </div>
+      </div>
+
+      {options.format === 'png' && canBeTransparent && (
+        <label className="flex items-center justify-between text-sm font-medium text-gray-300">
+          <span>Transparent background</span>
+          <input
+            type="checkbox"
+            checked={options.transparent}
+            onChange={(e) => onChange({ ...options, transparent: e.target.checked })}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowPathRoundedSquareIcon,
+  ArrowUpTrayIcon,
+  BookmarkIcon,
+  ChartBarIcon,
+  ChatBubbleLeftEllipsisIcon,
+  ChatBubbleOvalLeftIcon,
+  EllipsisHorizontalIcon,
+  HandThumbUpIcon,
+  HeartIcon,
+  PaperAirplaneIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { Design } from '../lib/design';
+import DesignPreview from './DesignPreview';
+
+interface Platform {
+  id: 'instagram' | 'x' | 'linkedin';
+  label: string;
+  minRatio: number;
+  maxRatio: number;
+}
+
+interface FeedPreviewProps {
+  design: Design;
+  pageIndex: number;
+  accountName: string;
+  onClose: () => void;
+}
+
+// Feeds show a single image between these aspect ratios (width / height) and center-crop anything
+// beyond them. Approximate, as the platforms don't publish exact rules.
+const PLATFORMS: Platform[] = [
+  { id: 'instagram', label: 'Instagram', minRatio: 4 / 5, maxRatio: 1.91 },
+  { id: 'x', label: 'X', minRatio: 3 / 4, maxRatio: 2 },
+  { id: 'linkedin', label: 'LinkedIn', minRatio: 4 / 5, maxRatio: 1.91 },
+];
+
+const FEED_WIDTH = 400;
+const X_IMAGE_WIDTH = 336;
+
+const CAPTION = 'New post coming to your feed soon.';
+
+interface FeedImageProps {
+  design: Design;
+  pageIndex: number;
+  width: number;
+  minRatio: number;
+  maxRatio: number;
+  className?: string;
+}
+
+function FeedImage({ design, pageIndex, width, minRatio, maxRatio, className = '' }: FeedImageProps) {
+  const { canvas } = design;
+  const ratio = Math.min(maxRatio, Math.max(minRatio, canvas.width / canvas.height));
+  const height = width / ratio;
+  // Cover the frame, like the feed's own crop.
+  const scale = Math.max(width / canvas.width, height / canvas.height);
+
+  return (
+    <div className={`relative overflow-hidden bg-gray-100 ${className}`} style={{ width, height }}>
+      <div
+        className="absolute"
+        style={{
+          left: (width - canvas.width * scale) / 2,
+          top: (height - canvas.height * scale) / 2,
+        }}
+      >
+        <DesignPreview design={design} pageIndex={pageIndex} size={scale * Math.max(canvas.width, canvas.height)} />
+      </div>
+    </div>
+  );
+}
+
+function Avatar({ name, size }: { name: string; size: number }) {
+  return (
+    <div
+      className="shrink-0 flex items-center justify-center rounded-full bg-gradient-to-br from-blue-500 to-purple-500 text-white font-semibold"
+      style={{ width: size, height: size, fontSize: size * 0.4 }}
+      aria-hidden="true"
+    >
+      {name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
+
+const toHandle = (name: string) => name.toLowerCase().replace(/[^a-z0-9_]/g, '') || 'yourbrand';
+
+// Mock posts, close enough to each platform's layout to judge crops and legibility at feed size.
+interface FeedPostProps {
+  platform: Platform;
+  design: Design;
+  pageIndex: number;
+  accountName: string;
+}
+
+function FeedPost({ platform, design, pageIndex, accountName }: FeedPostProps) {
+  const { minRatio, maxRatio } = platform;
+  const handle = toHandle(accountName);
+
+  switch (platform.id) {
+    case 'instagram':
+      return (
+        <div className="bg-white text-gray-900 text-sm" style={{ width: FEED_WIDTH }}>
+          <div className="flex items-center space-x-2 px-3 py-2">
+            <Avatar name={accountName} size={32} />
+            <span className="flex-1 font-semibold">{handle}</span>
+            <EllipsisHorizontalIcon className="w-5 h-5" />
+          </div>
+          <FeedImage design={design} pageIndex={pageIndex} width={FEED_WIDTH} minRatio={minRatio} maxRatio={maxRatio} />
+          <div className="flex items-center space-x-4 px-3 pt-3">
+            <HeartIcon className="w-6 h-6" />
+            <ChatBubbleOvalLeftIcon className="w-6 h-6" />
+            <PaperAirplaneIcon className="w-6 h-6" />
+            <BookmarkIcon className="w-6 h-6 ml-auto" />
+          </div>
+          <div className="px-3 pt-2 font-semibold">1,024 likes</div>
+          <div className="px-3 pt-1 pb-3">
+            <span className="font-semibold">{handle}</span> {CAPTION}
+          </div>
+        </div>
+      );
+    case 'x':
+      return (
+        <div className="flex space-x-3 bg-white text-gray-900 text-sm px-4 py-3" style={{ width: FEED_WIDTH }}>
+          <Avatar name={accountName} size={40} />
+          <div className="min-w-0">
+            <div className="truncate">
+              <span className="font-bold">{accountName}</span>{' '}
+              <span className="text-gray-500">@{handle} · 2h</span>
+            </div>
+            <p className="mt-0.5">{CAPTION}</p>
+            <FeedImage
+              design={design}
+              pageIndex={pageIndex}
+              width={X_IMAGE_WIDTH}
+              minRatio={minRatio}
+              maxRatio={maxRatio}
+              className="mt-3 rounded-2xl border border-gray-200"
+            />
+            <div className="flex justify-between mt-3 text-gray-500">
+              <ChatBubbleOvalLeftIcon className="w-5 h-5" />
+              <ArrowPathRoundedSquareIcon className="w-5 h-5" />
+              <HeartIcon className="w-5 h-5" />
+              <ChartBarIcon className="w-5 h-5" />
+              <ArrowUpTrayIcon className="w-5 h-5" />
+            </div>
+          </div>
+        </div>
+      );
+    case 'linkedin':
+      return (
+        <div className="bg-white text-gray-900 text-sm" style={{ width: FEED_WIDTH }}>
+          <div className="flex items-start space-x-2 px-4 pt-3">
+            <Avatar name={accountName} size={48} />
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold truncate">{accountName}</div>
+              <div className="text-xs text-gray-500">2,048 followers</div>
+              <div className="text-xs text-gray-500">1h</div>
+            </div>
+            <EllipsisHorizontalIcon className="w-5 h-5 text-gray-500" />
+          </div>
+          <p className="px-4 py-2">{CAPTION}</p>
+          <FeedImage design={design} pageIndex={pageIndex} width={FEED_WIDTH} minRatio={minRatio} maxRatio={maxRatio} />
+          <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-200">56 reactions · 4 comments</div>
+          <div className="flex justify-around py-1 text-gray-600 font-semibold">
+            {[
+              { Icon: HandThumbUpIcon, label: 'Like' },
+              { Icon: ChatBubbleLeftEllipsisIcon, label: 'Comment' },
+              { Icon: ArrowPathRoundedSquareIcon, label: 'Repost' },
+              { Icon: PaperAirplaneIcon, label: 'Send' },
+            ].map(({ Icon, label }) => (
+              <span key={label} className="flex items-center space-x-1 px-2 py-2">
+                <Icon className="w-5 h-5" />
+                <span>{label}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      );
+  }
+}
+
+export default function FeedPreview({ design, pageIndex, accountName, onClose }: FeedPreviewProps) {
+  const [platform, setPlatform] = useState(PLATFORMS[0]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="feed-preview-title"
+    >
+      <div
+        className="max-w-full max-h-full overflow-y-auto bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="feed-preview-title" className="text-lg font-medium text-white">Feed preview</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 rounded-md hover:text-white hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 mb-4" role="tablist">
+          {PLATFORMS.map(option => (
+            <button
+              key={option.id}
+              role="tab"
+              aria-selected={platform.id === option.id}
+              onClick={() => setPlatform(option)}
+              className={`px-4 py-2 rounded ${
+                platform.id === option.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto rounded-lg ring-1 ring-gray-700" role="tabpanel">
+          <FeedPost platform={platform} design={design} pageIndex={pageIndex} accountName={accountName} />
+        </div>
+        <p className="mt-3 text-xs text-gray-400" style={{ maxWidth: FEED_WIDTH }}>
+          Shown at typical feed size, cropped the way each feed crops single images.
+        </p>
+      </div>
+    </div>
+  );
+}
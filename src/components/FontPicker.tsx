@@ -0,0 +1,141 @@
+import { useEffect, useRef } from 'react';
+import { ArrowUpTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CUSTOM_FONT_ACCEPT, type CustomFont } from '../lib/customFonts';
+import { FONT_CATEGORIES, findFont, getFontStack, loadFont } from '../lib/fonts';
+
+interface FontPickerProps {
+  value: string;
+  families: string[];
+  customFonts: CustomFont[];
+  error: string | null;
+  onChange: (family: string) => void;
+  onUpload: (file: File) => void;
+  onRemove: (font: CustomFont) => void;
+}
+
+interface FontOptionProps {
+  family: string;
+  isSelected: boolean;
+  onSelect: () => void;
+  onRemove?: () => void;
+}
+
+// Fonts are only fetched once their preview scrolls into view.
+function FontOption({ family, isSelected, onSelect, onRemove }: FontOptionProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadFont(family);
+        observer.disconnect();
+      }
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [family]);
+
+  return (
+    <div ref={ref} className="relative group">
+      <button
+        onClick={onSelect}
+        aria-pressed={isSelected}
+        aria-label={family}
+        className={`w-full px-4 py-3 text-left border-b border-gray-600 ${
+          isSelected
+            ? 'bg-blue-600 text-white'
+            : 'text-gray-200 hover:text-gray-900 hover:bg-gray-600'
+        }`}
+        style={{ fontFamily: getFontStack(family) }}
+      >
+        <div className="text-sm">{family}</div>
+        <div className="text-lg mt-1">
+          Sample Text
+        </div>
+      </button>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute top-2 right-2 p-1 text-gray-400 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-300 hover:bg-gray-800"
+          aria-label={`Remove ${family}`}
+          title="Remove uploaded font"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function FontPicker({ value, families, customFonts, error, onChange, onUpload, onRemove }: FontPickerProps) {
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const groups = FONT_CATEGORIES
+    .map(({ category, label }) => ({
+      label,
+      families: families.filter(family => (findFont(family)?.category ?? 'custom') === category),
+    }))
+    .filter(group => group.families.length > 0);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onUpload(file);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <span id="font-family-label" className="text-sm font-medium text-gray-300">
+          Font Family
+        </span>
+        <button
+          onClick={() => uploadInputRef.current?.click()}
+          className="flex items-center text-xs text-blue-400 hover:text-blue-300"
+        >
+          <ArrowUpTrayIcon className="w-4 h-4 mr-1" />
+          Upload font
+        </button>
+        <input
+          ref={uploadInputRef}
+          type="file"
+          accept={CUSTOM_FONT_ACCEPT}
+          onChange={handleUpload}
+          className="hidden"
+          aria-label="Upload a TTF, OTF, WOFF or WOFF2 font"
+        />
+      </div>
+      {error && (
+        <div role="alert" className="mb-2 px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+      <div
+        role="group"
+        aria-labelledby="font-family-label"
+        className="max-h-48 overflow-y-auto border border-gray-600 rounded-md bg-gray-700"
+      >
+        {groups.map(group => (
+          <div key={group.label} role="group" aria-label={group.label}>
+            <div aria-hidden="true" className="sticky top-0 bg-gray-800 px-4 py-2 text-xs font-medium text-gray-400 border-b border-gray-600 z-10">
+              {group.label}
+            </div>
+            {group.families.map(family => {
+              const customFont = customFonts.find(font => font.family === family);
+              return (
+                <FontOption
+                  key={family}
+                  family={family}
+                  isSelected={value === family}
+                  onSelect={() => onChange(family)}
+                  onRemove={customFont && (() => onRemove(customFont))}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
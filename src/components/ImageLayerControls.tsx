@@ -0,0 +1,59 @@
+import { IMAGE_FITS, type ImageLayer, type LayerUpdate } from '../lib/layers';
+
+interface ImageLayerControlsProps {
+  layer: ImageLayer;
+  onChange: (updates: LayerUpdate) => void;
+}
+
+export default function ImageLayerControls({ layer, onChange }: ImageLayerControlsProps) {
+  const handleReplace = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      onChange({ src: e.target?.result as string });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Replace Image
+        </label>
+        <input
+          type="file"
+          accept="image/*"
+          onChange={handleReplace}
+          className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+          aria-label="Replace layer image"
+          title="Replace layer image"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Image Fit
+        </label>
+        <div className="flex space-x-2">
+          {IMAGE_FITS.map(fit => (
+            <button
+              key={fit}
+              onClick={() => onChange({ fit })}
+              className={`px-4 py-2 rounded ${
+                layer.fit === fit
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              {fit.charAt(0).toUpperCase() + fit.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  RectangleGroupIcon,
+} from '@heroicons/react/24/outline';
+import { getLayerLabel, type Layer, type LayerUpdate } from '../lib/layers';
+
+interface LayerPanelProps {
+  title?: string;
+  layers: Layer[];
+  selectedLayerIds: string[];
+  // `extend` is set for shift-clicks, which add the layer to the selection or take it back out.
+  onSelect: (id: string, extend: boolean) => void;
+  onChange: (id: string, updates: LayerUpdate) => void;
+  onMove: (id: string, toIndex: number) => void;
+}
+
+const LAYER_TYPE_LABELS: Record<Layer['type'], string> = {
+  text: 'Text',
+  image: 'Image',
+  shape: 'Shape',
+};
+
+export default function LayerPanel({ title = 'Layers', layers, selectedLayerIds, onSelect, onChange, onMove }: LayerPanelProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  // The canvas draws layers in array order, so the top of the list is the end of the array.
+  const orderedLayers = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  const startRename = (layer: Layer) => {
+    setRenamingId(layer.id);
+    setNameDraft(getLayerLabel(layer));
+  };
+
+  const commitRename = (layer: Layer) => {
+    // Keeping the derived label leaves the name empty so it keeps tracking the content.
+    const trimmed = nameDraft.trim();
+    const name = trimmed === getLayerLabel({ ...layer, name: '' }) ? '' : trimmed;
+    if (name !== layer.name) {
+      onChange(layer.id, { name });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (draggedId) onMove(draggedId, targetIndex);
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  return (
+    <div className="bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700">
+      <h2 className="text-lg font-medium text-white mb-4">{title}</h2>
+      {layers.length === 0 ? (
+        <p className="text-sm text-gray-500">Add text, an image or a shape to see it here.</p>
+      ) : (
+        <ul className="space-y-1">
+          {orderedLayers.map(({ layer, index }) => (
+            <li
+              key={layer.id}
+              draggable={renamingId !== layer.id}
+              onDragStart={(e) => {
+                setDraggedId(layer.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId(layer.id);
+              }}
+              onDragLeave={() => setDropTargetId(id => (id === layer.id ? null : id))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropTargetId(null);
+              }}
+              onClick={(e) => onSelect(layer.id, e.shiftKey)}
+              className={`flex items-center px-3 py-2 rounded-md border cursor-pointer ${
+                selectedLayerIds.includes(layer.id)
+                  ? 'bg-blue-600/30 border-blue-500'
+                  : 'bg-[#0f172a] border-gray-700 hover:border-gray-500'
+              } ${dropTargetId === layer.id && draggedId !== layer.id ? 'border-dashed border-blue-400' : ''} ${
+                layer.hidden ? 'opacity-50' : ''
+              }`}
+            >
+              <span className="w-12 shrink-0 text-xs text-gray-400">{LAYER_TYPE_LABELS[layer.type]}</span>
+              {renamingId === layer.id ? (
+                <input
+                  autoFocus
+                  value={nameDraft}
+                  onChange={(e) => setNameDraft(e.target.value)}
+                  onBlur={() => commitRename(layer)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex-1 min-w-0 px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-sm text-white"
+                  aria-label="Layer name"
+                />
+              ) : (
+                // Clicks bubble up to the row, which does the selecting.
+                <button
+                  className="flex-1 min-w-0 truncate text-left text-sm text-gray-200 focus:outline-none focus-visible:underline"
+                  onDoubleClick={() => startRename(layer)}
+                  onKeyDown={(e) => {
+                    if (e.key !== 'F2') return;
+                    e.preventDefault();
+                    startRename(layer);
+                  }}
+                  aria-pressed={selectedLayerIds.includes(layer.id)}
+                  aria-label={`${LAYER_TYPE_LABELS[layer.type]} layer: ${getLayerLabel(layer)}`}
+                  title="Double-click or press F2 to rename"
+                >
+                  {getLayerLabel(layer)}
+                </button>
+              )}
+              {layer.groupId && (
+                <RectangleGroupIcon className="w-4 h-4 ml-2 shrink-0 text-purple-300" aria-label="Grouped" />
+              )}
+              <div className="flex items-center ml-2 space-x-1 text-gray-400" onClick={(e) => e.stopPropagation()}>
+                <button
+                  onClick={() => onMove(layer.id, index + 1)}
+                  disabled={index === layers.length - 1}
+                  className="p-1 rounded hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"
+                  aria-label="Bring forward"
+                  title="Bring forward"
+                >
+                  <ChevronUpIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onMove(layer.id, index - 1)}
+                  disabled={index === 0}
+                  className="p-1 rounded hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"
+                  aria-label="Send backward"
+                  title="Send backward"
+                >
+                  <ChevronDownIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onChange(layer.id, { hidden: !layer.hidden })}
+                  className="p-1 rounded hover:text-white hover:bg-gray-600"
+                  aria-label={layer.hidden ? 'Show layer' : 'Hide layer'}
+                  aria-pressed={layer.hidden}
+                  title={layer.hidden ? 'Show layer' : 'Hide layer'}
+                >
+                  {layer.hidden ? <EyeSlashIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => onChange(layer.id, { locked: !layer.locked })}
+                  className={`p-1 rounded hover:text-white hover:bg-gray-600 ${layer.locked ? 'text-yellow-400' : ''}`}
+                  aria-label={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                  aria-pressed={layer.locked}
+                  title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                >
+                  {layer.locked ? <LockClosedIcon className="w-4 h-4" /> : <LockOpenIcon className="w-4 h-4" />}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
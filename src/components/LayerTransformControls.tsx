@@ -0,0 +1,87 @@
+import { isTextBoxed, type Layer, type LayerUpdate } from '../lib/layers';
+
+interface LayerTransformControlsProps {
+  layer: Layer;
+  onChange: (updates: LayerUpdate, coalesceKey?: string) => void;
+}
+
+export default function LayerTransformControls({ layer, onChange }: LayerTransformControlsProps) {
+  const updateSize = (key: 'width' | 'height', value: string) => {
+    const percent = Number(value);
+    if (!Number.isFinite(percent) || percent <= 0) return;
+    onChange({ size: { ...layer.size, [key]: percent } }, `size:${layer.id}`);
+  };
+
+  // Free text sizes itself to its content, and wrapped text only has a width.
+  const hasWidth = layer.type !== 'text' || isTextBoxed(layer);
+  const hasHeight = layer.type !== 'text' || layer.autoFit;
+
+  return (
+    <div className="space-y-4">
+      {hasWidth && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            {hasHeight ? 'Size (% of canvas)' : 'Width (% of canvas)'}
+          </label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={Math.round(layer.size.width * 10) / 10}
+              onChange={(e) => updateSize('width', e.target.value)}
+              className="w-full px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+              aria-label="Layer width"
+            />
+            {hasHeight && (
+              <>
+                <span className="text-gray-400 text-sm">×</span>
+                <input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={Math.round(layer.size.height * 10) / 10}
+                  onChange={(e) => updateSize('height', e.target.value)}
+                  className="w-full px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+                  aria-label="Layer height"
+                />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="flex justify-between text-sm font-medium text-gray-300 mb-2" htmlFor="layer-rotation">
+          <span>Rotation</span>
+          <span className="text-gray-400">{Math.round(layer.rotation)}°</span>
+        </label>
+        <input
+          id="layer-rotation"
+          type="range"
+          min={-180}
+          max={180}
+          value={layer.rotation}
+          onChange={(e) => onChange({ rotation: Number(e.target.value) }, `rotation:${layer.id}`)}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="flex justify-between text-sm font-medium text-gray-300 mb-2" htmlFor="layer-opacity">
+          <span>Opacity</span>
+          <span className="text-gray-400">{Math.round(layer.opacity * 100)}%</span>
+        </label>
+        <input
+          id="layer-opacity"
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(layer.opacity * 100)}
+          onChange={(e) => onChange({ opacity: Number(e.target.value) / 100 }, `opacity:${layer.id}`)}
+          className="w-full"
+        />
+      </div>
+    </div>
+  );
+}
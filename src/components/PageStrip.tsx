@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  DocumentDuplicateIcon,
+  PlusIcon,
+  Square3Stack3DIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import type { Design } from '../lib/design';
+import DesignPreview from './DesignPreview';
+
+interface PageStripProps {
+  design: Design;
+  currentPageId: string;
+  isEditingMaster: boolean;
+  onSelect: (id: string) => void;
+  onEditMaster: () => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, toIndex: number) => void;
+}
+
+const THUMBNAIL_SIZE = 72;
+
+const ICON_BUTTON_CLASS =
+  'p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent';
+
+// Filmstrip of a carousel's pages, plus the master layers drawn on every one of them.
+export default function PageStrip({
+  design,
+  currentPageId,
+  isEditingMaster,
+  onSelect,
+  onEditMaster,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onMove,
+}: PageStripProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const { pages } = design;
+
+  const handleDrop = (targetIndex: number) => {
+    if (draggedId) onMove(draggedId, targetIndex);
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  return (
+    <div className="mt-3 flex items-start space-x-2 overflow-x-auto pb-2">
+      <button
+        onClick={onEditMaster}
+        aria-pressed={isEditingMaster}
+        title="Layers shown on every page, such as a logo or a {{page}} / {{pages}} counter"
+        className={`shrink-0 flex flex-col items-center justify-center rounded-md border text-xs ${
+          isEditingMaster
+            ? 'border-blue-500 bg-blue-600/30 text-white'
+            : 'border-gray-700 bg-[#0f172a] text-gray-400 hover:text-white hover:border-gray-500'
+        }`}
+        style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+      >
+        <Square3Stack3DIcon className="w-6 h-6 mb-1" />
+        Master
+      </button>
+
+      <ol className="flex space-x-2">
+        {pages.map((page, index) => {
+          const isCurrent = !isEditingMaster && page.id === currentPageId;
+          return (
+            <li
+              key={page.id}
+              draggable
+              onDragStart={(e) => {
+                setDraggedId(page.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId(page.id);
+              }}
+              onDragLeave={() => setDropTargetId(id => (id === page.id ? null : id))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropTargetId(null);
+              }}
+              className="shrink-0 flex flex-col items-center"
+            >
+              <button
+                onClick={() => onSelect(page.id)}
+                aria-current={isCurrent ? 'page' : undefined}
+                aria-label={`Page ${index + 1}`}
+                className={`relative flex items-center justify-center rounded-md border-2 overflow-hidden bg-gray-800 ${
+                  isCurrent ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'
+                } ${dropTargetId === page.id && draggedId !== page.id ? 'border-dashed border-blue-400' : ''}`}
+                style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+              >
+                <DesignPreview design={design} pageIndex={index} size={THUMBNAIL_SIZE - 4} />
+                <span className="absolute bottom-0.5 left-0.5 px-1 rounded bg-black/60 text-[10px] text-white">
+                  {index + 1}
+                </span>
+              </button>
+              {isCurrent && (
+                <div className="flex items-center mt-1">
+                  <button
+                    onClick={() => onMove(page.id, index - 1)}
+                    disabled={index === 0}
+                    className={ICON_BUTTON_CLASS}
+                    aria-label="Move page earlier"
+                    title="Move page earlier"
+                  >
+                    <ChevronLeftIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(page.id)}
+                    className={ICON_BUTTON_CLASS}
+                    aria-label="Duplicate page"
+                    title="Duplicate page"
+                  >
+                    <DocumentDuplicateIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(page.id)}
+                    disabled={pages.length === 1}
+                    className={ICON_BUTTON_CLASS}
+                    aria-label="Delete page"
+                    title="Delete page"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onMove(page.id, index + 1)}
+                    disabled={index === pages.length - 1}
+                    className={ICON_BUTTON_CLASS}
+                    aria-label="Move page later"
+                    title="Move page later"
+                  >
+                    <ChevronRightIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <button
+        onClick={onAdd}
+        className="shrink-0 flex flex-col items-center justify-center rounded-md border border-dashed border-gray-600 text-xs text-gray-400 hover:text-white hover:border-gray-400"
+        style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+        aria-label="Add page"
+      >
+        <PlusIcon className="w-6 h-6 mb-1" />
+        Add page
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { CanvasSize } from '../lib/canvasFormats';
+import { SAFE_ZONES, type SafeZoneId } from '../lib/safeZones';
+
+interface SafeZoneOverlayProps {
+  canvas: CanvasSize;
+  visible: SafeZoneId[];
+  // Current on-screen scale, so borders and labels stay the same size at any zoom.
+  scale: number;
+}
+
+// Shades the parts of the canvas that platforms crop or cover. Editor-only, so it never reaches an export.
+export default function SafeZoneOverlay({ canvas, visible, scale }: SafeZoneOverlayProps) {
+  const zones = SAFE_ZONES.filter(zone => visible.includes(zone.id));
+
+  return (
+    <>
+      {zones.flatMap(zone => zone.getCoveredRegions(canvas).map(({ bounds, label }, i) => (
+        <div
+          key={`${zone.id}-${i}`}
+          data-editor-only="true"
+          className="absolute flex items-start justify-start overflow-hidden bg-red-500/25 border-dashed border-red-400 pointer-events-none"
+          style={{ ...bounds, borderWidth: 1 / scale }}
+        >
+          <span
+            className="text-red-100 bg-red-900/70 rounded whitespace-nowrap"
+            style={{ fontSize: 11 / scale, padding: `${1 / scale}px ${4 / scale}px`, margin: 4 / scale }}
+          >
+            {label}
+          </span>
+        </div>
+      )))}
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+import { SHAPE_KINDS, type LayerUpdate, type ShapeLayer } from '../lib/layers';
+
+interface ShapeLayerControlsProps {
+  layer: ShapeLayer;
+  onChange: (updates: LayerUpdate, coalesceKey?: string) => void;
+}
+
+export default function ShapeLayerControls({ layer, onChange }: ShapeLayerControlsProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Shape
+        </label>
+        <div className="flex space-x-2">
+          {SHAPE_KINDS.map(shape => (
+            <button
+              key={shape}
+              onClick={() => onChange({ shape })}
+              className={`px-4 py-2 rounded ${
+                layer.shape === shape
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              {shape.charAt(0).toUpperCase() + shape.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex space-x-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="shape-fill">
+            Fill
+          </label>
+          <input
+            id="shape-fill"
+            type="color"
+            value={layer.fill}
+            onChange={(e) => onChange({ fill: e.target.value }, `fill:${layer.id}`)}
+            className="h-8 w-full bg-gray-700 border border-gray-600 rounded cursor-pointer"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="shape-stroke">
+            Outline
+          </label>
+          <input
+            id="shape-stroke"
+            type="color"
+            value={layer.stroke}
+            onChange={(e) => onChange({ stroke: e.target.value }, `stroke:${layer.id}`)}
+            className="h-8 w-full bg-gray-700 border border-gray-600 rounded cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="flex justify-between text-sm font-medium text-gray-300 mb-2" htmlFor="shape-stroke-width">
+          <span>Outline Width</span>
+          <span className="text-gray-400">{layer.strokeWidth}px</span>
+        </label>
+        <input
+          id="shape-stroke-width"
+          type="range"
+          min={0}
+          max={40}
+          value={layer.strokeWidth}
+          onChange={(e) => onChange({ strokeWidth: Number(e.target.value) }, `strokeWidth:${layer.id}`)}
+          className="w-full"
+        />
+      </div>
+
+      {layer.shape === 'rectangle' && (
+        <div>
+          <label className="flex justify-between text-sm font-medium text-gray-300 mb-2" htmlFor="shape-corner-radius">
+            <span>Corner Radius</span>
+            <span className="text-gray-400">{layer.cornerRadius}px</span>
+          </label>
+          <input
+            id="shape-corner-radius"
+            type="range"
+            min={0}
+            max={200}
+            value={layer.cornerRadius}
+            onChange={(e) => onChange({ cornerRadius: Number(e.target.value) }, `cornerRadius:${layer.id}`)}
+            className="w-full"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
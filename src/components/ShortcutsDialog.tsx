@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { SHORTCUT_GROUPS, formatKey } from '../lib/shortcuts';
+
+interface ShortcutsDialogProps {
+  onClose: () => void;
+}
+
+export default function ShortcutsDialog({ onClose }: ShortcutsDialogProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shortcuts-title"
+    >
+      <div
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="shortcuts-title" className="text-lg font-medium text-white">Keyboard Shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 rounded-md hover:text-white hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="space-y-4">
+          {SHORTCUT_GROUPS.map(group => (
+            <section key={group.title}>
+              <h3 className="text-xs font-medium text-gray-400 uppercase mb-2">{group.title}</h3>
+              <dl className="space-y-1">
+                {group.shortcuts.map(shortcut => (
+                  <div key={shortcut.description + shortcut.keys.join()} className="flex justify-between items-center text-sm">
+                    <dt className="text-gray-200">{shortcut.description}</dt>
+                    <dd className="flex items-center space-x-1">
+                      {shortcut.keys.map(key => (
+                        <kbd key={key} className="px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-gray-200">
+                          {formatKey(key)}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+        <p className="mt-4 text-xs text-gray-400">Shortcuts are paused while you type in a field.</p>
+      </div>
+    </div>
+  );
+}
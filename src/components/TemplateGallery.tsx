@@ -0,0 +1,94 @@
+import { useEffect } from 'react';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { loadFont } from '../lib/fonts';
+import { STARTER_TEMPLATES, type StarterTemplate } from '../lib/starterTemplates';
+import DesignPreview from './DesignPreview';
+
+interface TemplateGalleryProps {
+  error: string | null;
+  onPick: (template: StarterTemplate) => void;
+  onBlank: () => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 160;
+
+export default function TemplateGallery({ error, onPick, onBlank, onClose }: TemplateGalleryProps) {
+  useEffect(() => {
+    for (const { design } of STARTER_TEMPLATES) {
+      for (const layer of [...design.pages.flatMap(page => page.layers), ...design.masterLayers]) {
+        if (layer.type === 'text') loadFont(layer.fontFamily);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="template-gallery-title"
+    >
+      <div
+        className="w-full max-w-4xl max-h-full overflow-y-auto bg-[#1e293b] rounded-lg shadow-lg p-6 border border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="template-gallery-title" className="text-lg font-medium text-white">Start from a template</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 rounded-md hover:text-white hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div role="alert" className="mb-4 px-3 py-2 text-sm text-red-300 bg-red-900/40 border border-red-700 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          <li className="flex flex-col bg-[#0f172a] rounded-lg border border-gray-700 overflow-hidden">
+            <button
+              onClick={onBlank}
+              className="aspect-square flex flex-col items-center justify-center text-gray-400 bg-gray-800 hover:text-white"
+            >
+              <PlusIcon className="w-8 h-8 mb-1" />
+              <span className="text-sm">Blank design</span>
+            </button>
+            <div className="p-2 text-sm text-white">Blank</div>
+          </li>
+          {STARTER_TEMPLATES.map(template => (
+            <li key={template.id} className="flex flex-col bg-[#0f172a] rounded-lg border border-gray-700 overflow-hidden hover:border-blue-500">
+              <button
+                onClick={() => onPick(template)}
+                className="aspect-square bg-gray-800 flex items-center justify-center overflow-hidden"
+                aria-label={`Use the ${template.name} template`}
+              >
+                <DesignPreview design={template.design} size={PREVIEW_SIZE} />
+              </button>
+              <div className="p-2">
+                <div className="text-sm text-white">{template.name}</div>
+                <div className="text-xs text-gray-400">
+                  {template.design.canvas.width} × {template.design.canvas.height}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import type { Size } from '../lib/geometry';
+import type { LayerUpdate, TextLayer } from '../lib/layers';
+
+interface TextBoxControlsProps {
+  layer: TextLayer;
+  // The text's current rendered size as a percentage of the canvas, which a new box starts from.
+  measuredSize: Size | null;
+  onChange: (updates: LayerUpdate) => void;
+}
+
+const MODES: { key: 'wrap' | 'autoFit'; label: string; description: string }[] = [
+  { key: 'wrap', label: 'Wrap Lines', description: 'Break lines at the box width' },
+  { key: 'autoFit', label: 'Shrink to Fit', description: 'Reduce the font size until the text fits the box' },
+];
+
+export default function TextBoxControls({ layer, measuredSize, onChange }: TextBoxControlsProps) {
+  const toggle = (key: 'wrap' | 'autoFit') => {
+    const enabled = !layer[key];
+    const wasBoxed = layer.wrap || layer.autoFit;
+    // Text that sized itself until now gets a box matching what's on the canvas, so nothing jumps.
+    onChange(enabled && !wasBoxed && measuredSize ? { [key]: enabled, size: measuredSize } : { [key]: enabled });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        Text Box
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {MODES.map(({ key, label, description }) => (
+          <button
+            key={key}
+            onClick={() => toggle(key)}
+            aria-pressed={layer[key]}
+            title={description}
+            className={`px-3 py-2 text-sm rounded ${
+              layer[key] ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {(layer.wrap || layer.autoFit) && (
+        <p className="mt-2 text-xs text-gray-400">
+          Drag the corners to change the box. {layer.autoFit && 'The font size is the largest it will grow to.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { EyeDropperIcon } from '@heroicons/react/24/outline';
+import type { BrandColor } from '../lib/brandKits';
+import { BLACK, formatColor, parseColor, sameColor, toHex } from '../lib/colors';
+import { formatRatio, hasContrastIssue, type ContrastReport } from '../lib/contrast';
+import { getTextGradientCss, type LayerUpdate, type TextLayer } from '../lib/layers';
+
+interface TextColorControlsProps {
+  layer: TextLayer;
+  // An active brand kit's colors replace the built-in palettes.
+  brandColors: BrandColor[] | null;
+  recentColors: string[];
+  contrast?: ContrastReport;
+  // Set while the next click on the canvas samples the background.
+  isPicking: boolean;
+  onChange: (updates: LayerUpdate, coalesceKey?: string) => void;
+  // Called once a color has been settled on, for the recent colors row.
+  onColorUsed: (color: string) => void;
+  // Starts sampling with the function that takes the picked color, or stops it with null.
+  onPick: (apply: ((color: string) => void) | null) => void;
+  // Saves a color into the active brand kit, when there is one.
+  onSaveToKit?: (color: string) => void;
+  kitName?: string;
+}
+
+type TextFill = 'solid' | 'gradient';
+type GradientStop = 'from' | 'to';
+
+// Each color appears once, so every swatch has its own key and only one shows as picked.
+const COLOR_PALETTES: { label: string; colors: string[] }[] = [
+  {
+    label: 'Primary Colors',
+    colors: ['#FFFFFF', '#000000', '#808080', '#D3D3D3', '#A9A9A9', '#696969'],
+  },
+  {
+    label: 'Warm Colors',
+    colors: [
+      '#FF0000', '#FF4500', '#FFA500', '#FFD700', '#FFFF00', '#FFB6C1', '#FF69B4', '#FF1493',
+      '#8B0000', '#A52A2A', '#CD5C5C', '#DC143C', '#FF6347', '#FA8072',
+    ],
+  },
+  {
+    label: 'Cool Colors',
+    colors: [
+      '#00FF00', '#008000', '#00FFFF', '#0000FF', '#4B0082', '#00CED1', '#20B2AA', '#48D1CC',
+      '#40E0D0', '#7FFFD4', '#66CDAA', '#3CB371', '#2E8B57', '#006400',
+    ],
+  },
+  {
+    label: 'Pastel Colors',
+    colors: [
+      '#DDA0DD', '#98FB98', '#87CEEB', '#E6E6FA', '#F0E68C', '#DEB887', '#F5DEB3', '#FFDAB9',
+      '#FFE4B5', '#FAFAD2', '#F0FFF0', '#F5FFFA', '#F0FFFF',
+    ],
+  },
+  {
+    label: 'Rich Colors',
+    colors: ['#800000', '#8B4513', '#000080', '#800080', '#8B008B', '#9400D3', '#483D8B', '#191970', '#00008B', '#0000CD'],
+  },
+];
+
+const TEXT_FILLS: { fill: TextFill; label: string }[] = [
+  { fill: 'solid', label: 'Solid' },
+  { fill: 'gradient', label: 'Gradient' },
+];
+
+const GRADIENT_STOPS: { stop: GradientStop; label: string }[] = [
+  { stop: 'from', label: 'Start' },
+  { stop: 'to', label: 'End' },
+];
+
+interface SwatchProps {
+  color: string;
+  label?: string;
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+function Swatch({ color, label = color, isSelected, onSelect }: SwatchProps) {
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-8 h-8 rounded-lg border-2 ${isSelected ? 'border-blue-500' : 'border-transparent'}`}
+      style={{ backgroundColor: color }}
+      title={label === color ? color : `${label} (${color})`}
+      aria-label={label}
+      aria-pressed={isSelected}
+    />
+  );
+}
+
+interface ColorInputProps {
+  id: string;
+  value: string;
+  onCommit: (color: string) => void;
+}
+
+// Typed colors only apply once they parse, and are stored as hex, or rgba() when see-through.
+function ColorInput({ id, value, onCommit }: ColorInputProps) {
+  const [draft, setDraft] = useState(value);
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  const commit = () => {
+    const parsed = parseColor(draft);
+    setIsInvalid(!parsed);
+    if (parsed) onCommit(formatColor(parsed));
+  };
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex space-x-2">
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setIsInvalid(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+          }}
+          placeholder="#FF8800, rgb() or hsl()"
+          aria-invalid={isInvalid}
+          aria-describedby={isInvalid ? `${id}-error` : undefined}
+          className={`flex-1 min-w-0 px-3 py-1 bg-gray-700 border rounded-md text-white text-sm ${
+            isInvalid ? 'border-red-500' : 'border-gray-600'
+          }`}
+        />
+        <button
+          onClick={commit}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+        >
+          Apply
+        </button>
+      </div>
+      {isInvalid && (
+        <p id={`${id}-error`} role="alert" className="mt-1 text-xs text-red-300">
+          Use a hex, rgb() or hsl() color, like #FF8800, rgb(255, 136, 0) or hsl(32 100% 50% / 80%).
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function TextColorControls({
+  layer,
+  brandColors,
+  recentColors,
+  contrast,
+  isPicking,
+  onChange,
+  onColorUsed,
+  onPick,
+  onSaveToKit,
+  kitName,
+}: TextColorControlsProps) {
+  const [gradientStop, setGradientStop] = useState<GradientStop>('from');
+  const { gradient } = layer;
+  const currentFill: TextFill = gradient ? 'gradient' : 'solid';
+  // Swatches, the picker and the eyedropper all edit the solid color, or the chosen end of the gradient.
+  const value = gradient ? gradient[gradientStop] : layer.color;
+  const current = parseColor(value) ?? BLACK;
+
+  const setColor = (color: string, coalesceKey?: string) =>
+    onChange(gradient ? { gradient: { ...gradient, [gradientStop]: color } } : { color }, coalesceKey);
+
+  const applyColor = (color: string) => {
+    setColor(color);
+    onColorUsed(color);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2" htmlFor="text-color-value">
+        Text Color
+      </label>
+      {contrast && (
+        <p className={`mb-2 text-xs ${hasContrastIssue(contrast) ? 'text-amber-300' : 'text-gray-400'}`}>
+          Contrast {formatRatio(contrast.ratio)} against what's behind it
+          {hasContrastIssue(contrast) ? `, below the ${formatRatio(contrast.required)} accessibility minimum` : ', readable'}
+        </p>
+      )}
+      <div className="space-y-4">
+        <div className="flex space-x-2" role="group" aria-label="Text fill">
+          {TEXT_FILLS.map(({ fill, label }) => (
+            <button
+              key={fill}
+              // A new gradient starts from the solid color, as background fills do.
+              onClick={() => fill !== currentFill && onChange({
+                gradient: fill === 'gradient' ? { from: layer.color, to: '#000000', angle: 90 } : null,
+              })}
+              aria-pressed={fill === currentFill}
+              className={`flex-1 px-3 py-1 rounded text-sm ${
+                fill === currentFill
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {gradient && (
+          <div className="space-y-2">
+            <div
+              className="h-6 rounded-md border border-gray-600"
+              style={{ backgroundImage: getTextGradientCss(gradient) }}
+              aria-hidden="true"
+            />
+            <div className="flex space-x-2" role="group" aria-label="Gradient end to edit">
+              {GRADIENT_STOPS.map(({ stop, label }) => (
+                <button
+                  key={stop}
+                  onClick={() => setGradientStop(stop)}
+                  aria-pressed={gradientStop === stop}
+                  className={`flex-1 flex items-center justify-center px-3 py-1 rounded text-sm ${
+                    gradientStop === stop
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                  }`}
+                >
+                  <span
+                    className="w-3 h-3 mr-2 rounded-sm border border-gray-400"
+                    style={{ backgroundColor: gradient[stop] }}
+                    aria-hidden="true"
+                  />
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div>
+              <label className="flex justify-between text-xs text-gray-400 mb-1" htmlFor="text-gradient-angle">
+                <span>Angle</span>
+                <span>{gradient.angle}°</span>
+              </label>
+              <input
+                id="text-gradient-angle"
+                type="range"
+                min={0}
+                max={360}
+                value={gradient.angle}
+                onChange={(e) => onChange({ gradient: { ...gradient, angle: Number(e.target.value) } }, `gradientAngle:${layer.id}`)}
+                className="w-full"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <ColorInput
+            key={`${gradientStop}:${value}`}
+            id="text-color-value"
+            value={value}
+            onCommit={applyColor}
+          />
+          <input
+            type="color"
+            value={toHex(current)}
+            onChange={(e) => {
+              const picked = parseColor(e.target.value);
+              if (picked) setColor(formatColor({ ...picked, a: current.a }), `textColor:${layer.id}`);
+            }}
+            onBlur={() => onColorUsed(value)}
+            className="h-8 w-8 shrink-0 bg-gray-700 border border-gray-600 rounded cursor-pointer"
+            title="Color picker"
+            aria-label="Color picker"
+          />
+          <button
+            onClick={() => onPick(isPicking ? null : applyColor)}
+            aria-pressed={isPicking}
+            className={`h-8 w-8 shrink-0 flex items-center justify-center rounded-md ${
+              isPicking ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+            }`}
+            title="Pick a color from the background image"
+            aria-label="Pick a color from the background image"
+          >
+            <EyeDropperIcon className="w-4 h-4" />
+          </button>
+          {onSaveToKit && (
+            <button
+              onClick={() => onSaveToKit(value)}
+              className="px-3 py-1 bg-gray-700 text-gray-200 rounded-md text-sm hover:bg-gray-600"
+              title={`Save to ${kitName}`}
+            >
+              Save
+            </button>
+          )}
+        </div>
+        {isPicking && (
+          <p className="text-xs text-blue-300">Click the canvas to sample the background. Esc cancels.</p>
+        )}
+
+        <div>
+          <label className="flex justify-between text-xs text-gray-400 mb-1" htmlFor="text-color-opacity">
+            <span>Color opacity</span>
+            <span>{Math.round(current.a * 100)}%</span>
+          </label>
+          <input
+            id="text-color-opacity"
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(current.a * 100)}
+            onChange={(e) => setColor(formatColor({ ...current, a: Number(e.target.value) / 100 }), `textColorAlpha:${layer.id}`)}
+            className="w-full"
+          />
+        </div>
+
+        {recentColors.length > 0 && (
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Recent Colors</label>
+            <div className="grid grid-cols-8 gap-2">
+              {recentColors.map(color => (
+                <Swatch key={color} color={color} isSelected={sameColor(value, color)} onSelect={() => applyColor(color)} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {brandColors ? (
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">{kitName} Colors</label>
+            <div className="grid grid-cols-8 gap-2">
+              {brandColors.map((color, index) => (
+                <Swatch
+                  key={index}
+                  color={color.value}
+                  label={color.name}
+                  isSelected={sameColor(value, color.value)}
+                  onSelect={() => applyColor(color.value)}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {COLOR_PALETTES.map(palette => (
+              <div key={palette.label}>
+                <label className="block text-xs text-gray-400 mb-1">{palette.label}</label>
+                <div className="grid grid-cols-8 gap-2">
+                  {palette.colors.map(color => (
+                    <Swatch key={color} color={color} isSelected={sameColor(value, color)} onSelect={() => applyColor(color)} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import {
+  DEFAULT_TEXT_BACKGROUND,
+  DEFAULT_TEXT_SHADOW,
+  type LayerUpdate,
+  type TextLayer,
+} from '../lib/layers';
+
+interface TextStyleControlsProps {
+  layer: TextLayer;
+  onChange: (updates: LayerUpdate, coalesceKey?: string) => void;
+}
+
+interface SliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}
+
+interface ColorFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function Slider({ id, label, value, min, max, step = 1, unit = 'px', onChange }: SliderProps) {
+  return (
+    <div>
+      <label className="flex justify-between text-xs text-gray-400 mb-1" htmlFor={id}>
+        <span>{label}</span>
+        <span>{value}{unit}</span>
+      </label>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+// Free-text color with a picker, so values with transparency like rgba() still work.
+function ColorField({ label, value, onChange }: ColorFieldProps) {
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">{label}</label>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+          aria-label={label}
+        />
+        <input
+          type="color"
+          value={HEX_COLOR.test(value) ? value : '#000000'}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-8 w-8 bg-gray-700 border border-gray-600 rounded cursor-pointer"
+          title={`${label} picker`}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function TextStyleControls({ layer, onChange }: TextStyleControlsProps) {
+  const { shadow, background } = layer;
+  const toggles: { key: 'italic' | 'underline' | 'uppercase'; label: string; className: string }[] = [
+    { key: 'italic', label: 'Italic', className: 'italic' },
+    { key: 'underline', label: 'Underline', className: 'underline' },
+    { key: 'uppercase', label: 'Uppercase', className: 'uppercase' },
+  ];
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Text Style
+        </label>
+        <div className="flex space-x-2">
+          {toggles.map(({ key, label, className }) => (
+            <button
+              key={key}
+              onClick={() => onChange({ [key]: !layer[key] })}
+              aria-pressed={layer[key]}
+              className={`px-4 py-2 rounded ${className} ${
+                layer[key]
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Spacing
+        </label>
+        <div className="space-y-2">
+          <Slider
+            id="text-letter-spacing"
+            label="Letter spacing"
+            value={layer.letterSpacing}
+            min={-10}
+            max={50}
+            onChange={(letterSpacing) => onChange({ letterSpacing }, `letterSpacing:${layer.id}`)}
+          />
+          <Slider
+            id="text-line-height"
+            label="Line height"
+            value={layer.lineHeight}
+            min={0.6}
+            max={3}
+            step={0.05}
+            unit="×"
+            onChange={(lineHeight) => onChange({ lineHeight }, `lineHeight:${layer.id}`)}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Outline
+        </label>
+        <div className="space-y-2">
+          <Slider
+            id="text-stroke-width"
+            label="Width"
+            value={layer.strokeWidth}
+            min={0}
+            max={20}
+            step={0.5}
+            onChange={(strokeWidth) => onChange({ strokeWidth }, `strokeWidth:${layer.id}`)}
+          />
+          {layer.strokeWidth > 0 && (
+            <ColorField
+              label="Outline color"
+              value={layer.strokeColor}
+              onChange={(strokeColor) => onChange({ strokeColor }, `strokeColor:${layer.id}`)}
+            />
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="flex items-center justify-between text-sm font-medium text-gray-300 mb-2">
+          <span>Shadow</span>
+          <input
+            type="checkbox"
+            checked={shadow !== null}
+            onChange={(e) => onChange({ shadow: e.target.checked ? DEFAULT_TEXT_SHADOW : null })}
+            aria-label="Enable text shadow"
+          />
+        </label>
+        {shadow && (
+          <div className="space-y-2">
+            <ColorField
+              label="Shadow color"
+              value={shadow.color}
+              onChange={(color) => onChange({ shadow: { ...shadow, color } }, `shadow:${layer.id}`)}
+            />
+            <Slider
+              id="text-shadow-blur"
+              label="Blur"
+              value={shadow.blur}
+              min={0}
+              max={50}
+              onChange={(blur) => onChange({ shadow: { ...shadow, blur } }, `shadow:${layer.id}`)}
+            />
+            <Slider
+              id="text-shadow-x"
+              label="Offset X"
+              value={shadow.offsetX}
+              min={-50}
+              max={50}
+              onChange={(offsetX) => onChange({ shadow: { ...shadow, offsetX } }, `shadow:${layer.id}`)}
+            />
+            <Slider
+              id="text-shadow-y"
+              label="Offset Y"
+              value={shadow.offsetY}
+              min={-50}
+              max={50}
+              onChange={(offsetY) => onChange({ shadow: { ...shadow, offsetY } }, `shadow:${layer.id}`)}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="flex items-center justify-between text-sm font-medium text-gray-300 mb-2">
+          <span>Background Box</span>
+          <input
+            type="checkbox"
+            checked={background !== null}
+            onChange={(e) => onChange({ background: e.target.checked ? DEFAULT_TEXT_BACKGROUND : null })}
+            aria-label="Enable background box"
+          />
+        </label>
+        {background && (
+          <div className="space-y-2">
+            <ColorField
+              label="Box color"
+              value={background.color}
+              onChange={(color) => onChange({ background: { ...background, color } }, `background:${layer.id}`)}
+            />
+            <Slider
+              id="text-background-padding"
+              label="Padding"
+              value={background.padding}
+              min={0}
+              max={100}
+              onChange={(padding) => onChange({ background: { ...background, padding } }, `background:${layer.id}`)}
+            />
+            <Slider
+              id="text-background-radius"
+              label="Corner radius"
+              value={background.radius}
+              min={0}
+              max={200}
+              onChange={(radius) => onChange({ background: { ...background, radius } }, `background:${layer.id}`)}
+            />
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+import type { Corner, Point, Size } from '../lib/geometry';
+
+interface TransformHandlesProps {
+  center: Point;
+  size: Size;
+  rotation: number;
+  // Preview scale, so the handles keep a constant on-screen size.
+  scale: number;
+  onResizeStart: (e: React.PointerEvent, corner: Corner) => void;
+  onRotateStart: (e: React.PointerEvent) => void;
+}
+
+const CORNERS: { corner: Corner; cursor: string }[] = [
+  { corner: { x: -1, y: -1 }, cursor: 'nwse-resize' },
+  { corner: { x: 1, y: -1 }, cursor: 'nesw-resize' },
+  { corner: { x: 1, y: 1 }, cursor: 'nwse-resize' },
+  { corner: { x: -1, y: 1 }, cursor: 'nesw-resize' },
+];
+
+const HANDLE_SIZE = 12;
+const ROTATE_HANDLE_OFFSET = 28;
+
+export default function TransformHandles({ center, size, rotation, scale, onResizeStart, onRotateStart }: TransformHandlesProps) {
+  const handle = HANDLE_SIZE / scale;
+  const stem = ROTATE_HANDLE_OFFSET / scale;
+
+  return (
+    <div
+      data-editor-only="true"
+      // Pointer-only; the size and rotation fields do the same from the keyboard.
+      aria-hidden="true"
+      className="absolute pointer-events-none"
+      style={{
+        left: center.x,
+        top: center.y,
+        width: size.width,
+        height: size.height,
+        transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+      }}
+    >
+      {CORNERS.map(({ corner, cursor }) => (
+        <div
+          key={`${corner.x},${corner.y}`}
+          className="absolute bg-white border-blue-500 rounded-sm pointer-events-auto"
+          style={{
+            width: handle,
+            height: handle,
+            borderWidth: 2 / scale,
+            left: corner.x < 0 ? -handle / 2 : undefined,
+            right: corner.x > 0 ? -handle / 2 : undefined,
+            top: corner.y < 0 ? -handle / 2 : undefined,
+            bottom: corner.y > 0 ? -handle / 2 : undefined,
+            cursor,
+          }}
+          onPointerDown={(e) => onResizeStart(e, corner)}
+        />
+      ))}
+      <div
+        className="absolute left-1/2 bg-blue-500"
+        style={{ width: 2 / scale, height: stem, top: -stem, transform: 'translateX(-50%)' }}
+      />
+      <div
+        className="absolute left-1/2 bg-white border-blue-500 rounded-full pointer-events-auto cursor-grab"
+        style={{
+          width: handle,
+          height: handle,
+          borderWidth: 2 / scale,
+          top: -stem - handle,
+          transform: 'translateX(-50%)',
+        }}
+        onPointerDown={onRotateStart}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Design } from '../lib/design';
+import { saveDesign } from '../lib/designStore';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface AutosaveTarget {
+  id: string;
+  name: string;
+  design: Design;
+}
+
+interface AutosaveOptions extends AutosaveTarget {
+  enabled: boolean;
+  // Given the design being saved, which may no longer be the one in the editor.
+  captureThumbnail: (design: Design) => Promise<string | undefined>;
+}
+
+const isSameTarget = (a: AutosaveTarget | null, b: AutosaveTarget) =>
+  a !== null && a.id === b.id && a.name === b.name && a.design === b.design;
+
+export function useAutosave({ id, name, design, enabled, captureThumbnail }: AutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  // What is known to be in storage; the design is compared by identity since history never mutates it.
+  // The design the editor starts with counts as saved, so an untouched blank canvas is never stored.
+  const savedRef = useRef<AutosaveTarget | null>({ id, name, design });
+  const pendingRef = useRef<AutosaveTarget | null>(null);
+  const captureRef = useRef(captureThumbnail);
+  captureRef.current = captureThumbnail;
+
+  const save = useCallback(async (target: AutosaveTarget) => {
+    if (isSameTarget(savedRef.current, target)) return;
+    setStatus('saving');
+    try {
+      let thumbnail: string | undefined;
+      try {
+        thumbnail = await captureRef.current(target.design);
+      } catch (err) {
+        console.error('Error generating thumbnail:', err);
+      }
+      await saveDesign({ id: target.id, name: target.name, thumbnail }, target.design);
+      savedRef.current = target;
+      setStatus('saved');
+    } catch (err) {
+      console.error('Error saving design:', err);
+      setStatus('error');
+    } finally {
+      if (pendingRef.current === target) pendingRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const target = { id, name, design };
+    if (isSameTarget(savedRef.current, target)) return;
+
+    pendingRef.current = target;
+    const timer = window.setTimeout(() => save(target), AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [id, name, design, enabled, save]);
+
+  // Saves any edits still waiting on the debounce, e.g. before switching designs or leaving the page.
+  const flush = useCallback(async () => {
+    if (pendingRef.current) await save(pendingRef.current);
+  }, [save]);
+
+  useEffect(() => {
+    const handlePageHide = () => {
+      flush();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flush]);
+
+  // Records a design as already stored, e.g. right after loading it, so it isn't saved again.
+  const markSaved = useCallback((target: AutosaveTarget) => {
+    savedRef.current = target;
+    pendingRef.current = null;
+    setStatus('idle');
+  }, []);
+
+  return { status, flush, markSaved };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { BrandKit } from '../lib/brandKits';
+import {
+  deleteBrandKit,
+  getActiveBrandKitId,
+  listBrandKits,
+  saveBrandKit,
+  setActiveBrandKitId,
+} from '../lib/brandKitStore';
+
+export function useBrandKits() {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [activeKitId, setActiveKitId] = useState<string | null>(getActiveBrandKitId);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listBrandKits()
+      .then(setKits)
+      .catch(err => {
+        console.error('Error loading brand kits:', err);
+        setError('Brand kits are unavailable in this browser.');
+      });
+  }, []);
+
+  const selectKit = useCallback((id: string | null) => {
+    setActiveKitId(id);
+    setActiveBrandKitId(id);
+  }, []);
+
+  // Updates the list straight away so edits feel instant, then persists in the background.
+  const saveKit = useCallback(async (kit: BrandKit) => {
+    setKits(current =>
+      [...current.filter(other => other.id !== kit.id), kit].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    try {
+      await saveBrandKit(kit);
+      setError(null);
+    } catch (err) {
+      console.error('Error saving brand kit:', err);
+      setError('The brand kit could not be saved.');
+    }
+  }, []);
+
+  const removeKit = useCallback(async (id: string) => {
+    setKits(current => current.filter(kit => kit.id !== id));
+    if (id === activeKitId) selectKit(null);
+    try {
+      await deleteBrandKit(id);
+    } catch (err) {
+      console.error('Error deleting brand kit:', err);
+      setError('The brand kit could not be deleted.');
+    }
+  }, [activeKitId, selectKit]);
+
+  return {
+    kits,
+    activeKit: kits.find(kit => kit.id === activeKitId) ?? null,
+    selectKit,
+    saveKit,
+    removeKit,
+    error,
+  };
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Point, Size } from '../lib/geometry';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+
+// Zoom on top of the fit-to-screen preview scale, and the pan in on-screen pixels.
+export interface Viewport {
+  zoom: number;
+  pan: Point;
+}
+
+const DEFAULT_VIEWPORT: Viewport = { zoom: 1, pan: { x: 0, y: 0 } };
+
+// Keeps the zoomed canvas covering the whole frame, so it can't be panned out of sight.
+const clampViewport = ({ zoom, pan }: Viewport, frame: Size): Viewport => {
+  const clampedZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+  return {
+    zoom: clampedZoom,
+    pan: {
+      x: Math.min(0, Math.max(frame.width * (1 - clampedZoom), pan.x)),
+      y: Math.min(0, Math.max(frame.height * (1 - clampedZoom), pan.y)),
+    },
+  };
+};
+
+// Zooms so the canvas point that was under `from` ends up under `to`, e.g. the midpoint between two fingers.
+const zoomAround = (start: Viewport, zoom: number, from: Point, to: Point): Viewport => ({
+  zoom,
+  pan: {
+    x: to.x - ((from.x - start.pan.x) * zoom) / start.zoom,
+    y: to.y - ((from.y - start.pan.y) * zoom) / start.zoom,
+  },
+});
+
+const toFramePoint = (frame: HTMLElement | null, e: { clientX: number; clientY: number }): Point => {
+  const rect = frame?.getBoundingClientRect();
+  return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Pinch and Ctrl+wheel zoom for the canvas preview, with two-finger or wheel panning while zoomed in.
+export function useCanvasViewport(frameRef: React.RefObject<HTMLElement | null>, frame: Size) {
+  const [storedViewport, setViewport] = useState(DEFAULT_VIEWPORT);
+  // Clamped on read too, so a smaller window or canvas format never strands the canvas off-screen.
+  const viewport = clampViewport(storedViewport, frame);
+  const isZoomed = viewport.zoom > MIN_ZOOM;
+  const pointersRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number; midpoint: Point; viewport: Viewport } | null>(null);
+  const { width, height } = frame;
+
+  useEffect(() => {
+    const node = frameRef.current;
+    if (!node) return;
+    const bounds = { width, height };
+
+    const handleWheel = (e: WheelEvent) => {
+      // Trackpad pinches arrive as wheel events with Ctrl held.
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const focus = toFramePoint(node, e);
+        setViewport(current => {
+          const start = clampViewport(current, bounds);
+          return clampViewport(zoomAround(start, start.zoom * Math.exp(-e.deltaY / 200), focus, focus), bounds);
+        });
+      } else if (isZoomed) {
+        e.preventDefault();
+        setViewport(current => clampViewport(
+          { ...current, pan: { x: current.pan.x - e.deltaX, y: current.pan.y - e.deltaY } },
+          bounds
+        ));
+      }
+    };
+
+    node.addEventListener('wheel', handleWheel, { passive: false });
+    return () => node.removeEventListener('wheel', handleWheel);
+  }, [frameRef, width, height, isZoomed]);
+
+  // Returns true once a second finger turns the touch into a pinch, which callers should stop treating as a drag.
+  const handlePointerDown = (e: React.PointerEvent): boolean => {
+    pointersRef.current.set(e.pointerId, toFramePoint(frameRef.current, e));
+    if (pointersRef.current.size !== 2) return pinchRef.current !== null;
+    const [a, b] = [...pointersRef.current.values()];
+    pinchRef.current = { distance: distance(a, b), midpoint: midpoint(a, b), viewport };
+    return true;
+  };
+
+  // Returns true while the pointer is part of a pinch.
+  const handlePointerMove = (e: React.PointerEvent): boolean => {
+    if (!pointersRef.current.has(e.pointerId)) return false;
+    pointersRef.current.set(e.pointerId, toFramePoint(frameRef.current, e));
+    const pinch = pinchRef.current;
+    if (!pinch || pointersRef.current.size < 2) return pinch !== null;
+
+    const [a, b] = [...pointersRef.current.values()];
+    const zoom = (pinch.viewport.zoom * distance(a, b)) / Math.max(1, pinch.distance);
+    setViewport(clampViewport(zoomAround(pinch.viewport, zoom, pinch.midpoint, midpoint(a, b)), frame));
+    return true;
+  };
+
+  // The pinch lasts until every finger has lifted, so the last one doesn't start dragging a layer.
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size === 0) pinchRef.current = null;
+  };
+
+  const zoomBy = (factor: number) => {
+    const center = { x: frame.width / 2, y: frame.height / 2 };
+    setViewport(clampViewport(zoomAround(viewport, viewport.zoom * factor, center, center), frame));
+  };
+
+  const reset = () => setViewport(DEFAULT_VIEWPORT);
+
+  return { ...viewport, isZoomed, handlePointerDown, handlePointerMove, handlePointerUp, zoomBy, reset };
+}
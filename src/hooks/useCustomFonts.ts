@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  CustomFontError,
+  deleteCustomFont,
+  listCustomFonts,
+  readFontFile,
+  registerCustomFont,
+  saveCustomFont,
+  unregisterCustomFont,
+  type CustomFont,
+} from '../lib/customFonts';
+
+// Uploaded fonts, registered with the font registry as soon as they're read from storage.
+export function useCustomFonts() {
+  const [fonts, setFonts] = useState<CustomFont[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listCustomFonts()
+      .then(stored => {
+        stored.forEach(registerCustomFont);
+        setFonts(stored);
+      })
+      .catch(err => console.error('Error loading uploaded fonts:', err));
+  }, []);
+
+  const uploadFont = useCallback(async (file: File) => {
+    try {
+      const font = await readFontFile(file);
+      await saveCustomFont(font);
+      registerCustomFont(font);
+      setFonts(current => [...current, font].sort((a, b) => a.family.localeCompare(b.family)));
+      setError(null);
+      return font;
+    } catch (err) {
+      console.error('Error uploading font:', err);
+      setError(err instanceof CustomFontError ? err.message : `Could not save ${file.name}`);
+      return null;
+    }
+  }, []);
+
+  const removeFont = useCallback(async (font: CustomFont) => {
+    try {
+      await deleteCustomFont(font.id);
+      unregisterCustomFont(font);
+      setFonts(current => current.filter(other => other.id !== font.id));
+    } catch (err) {
+      console.error('Error removing font:', err);
+      setError(`Could not remove ${font.family}`);
+    }
+  }, []);
+
+  return { fonts, uploadFont, removeFont, error };
+}
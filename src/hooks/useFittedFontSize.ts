@@ -0,0 +1,52 @@
+import { useEffect, useLayoutEffect, useState } from 'react';
+import { MIN_FIT_FONT_SIZE, type TextLayer } from '../lib/layers';
+
+// Content spilling out of an element's box, allowing for sub-pixel rounding.
+export const overflowsBox = (element: HTMLElement): boolean =>
+  element.scrollWidth > element.clientWidth + 1 || element.scrollHeight > element.clientHeight + 1;
+
+// The largest font size, up to the layer's own, at which an auto-fit text layer fits its box. It's
+// measured on the rendered element, so wrapping, letter spacing and the loaded font all count.
+export function useFittedFontSize(ref: React.RefObject<HTMLElement | null>, layer: TextLayer | null): number | null {
+  const [fitted, setFitted] = useState<number | null>(null);
+  const [fontsLoaded, setFontsLoaded] = useState(0);
+  const autoFit = layer?.autoFit ?? false;
+
+  // A font file arriving changes the text's metrics without anything re-rendering.
+  useEffect(() => {
+    if (!autoFit) return;
+    const handleLoadingDone = () => setFontsLoaded(count => count + 1);
+    document.fonts.addEventListener('loadingdone', handleLoadingDone);
+    return () => document.fonts.removeEventListener('loadingdone', handleLoadingDone);
+  }, [autoFit]);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!layer?.autoFit || !element) {
+      setFitted(null);
+      return;
+    }
+
+    const fits = (size: number) => {
+      element.style.fontSize = `${size}px`;
+      return !overflowsBox(element);
+    };
+    const max = parseFloat(layer.fontSize);
+    let size = max;
+    if (!fits(max)) {
+      let low = MIN_FIT_FONT_SIZE;
+      let high = max;
+      while (high - low > 0.5) {
+        const mid = (low + high) / 2;
+        if (fits(mid)) low = mid;
+        else high = mid;
+      }
+      size = Math.floor(low * 2) / 2;
+    }
+    // Left applied, so anything measuring the canvas later in this commit sees the fitted text.
+    element.style.fontSize = `${size}px`;
+    setFitted(size);
+  }, [ref, layer, fontsLoaded]);
+
+  return fitted;
+}
@@ -0,0 +1,87 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  coalesceKey: string | null;
+}
+
+export interface UpdateOptions {
+  // Consecutive updates sharing a key collapse into a single undo step.
+  coalesceKey?: string;
+}
+
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initial,
+    future: [],
+    coalesceKey: null,
+  });
+
+  const update = useCallback((updater: (prev: T) => T, options: UpdateOptions = {}) => {
+    setHistory(h => {
+      const next = updater(h.present);
+      if (Object.is(next, h.present)) return h;
+
+      const { coalesceKey = null } = options;
+      if (coalesceKey !== null && coalesceKey === h.coalesceKey) {
+        return { ...h, present: next, future: [] };
+      }
+      return {
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        coalesceKey,
+      };
+    });
+  }, []);
+
+  // Ends the current coalescing run so the next update starts a new undo step.
+  const checkpoint = useCallback(() => {
+    setHistory(h => (h.coalesceKey === null ? h : { ...h, coalesceKey: null }));
+  }, []);
+
+  // Replaces the present and drops all history, e.g. when switching to another design.
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], coalesceKey: null });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        coalesceKey: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        coalesceKey: null,
+      };
+    });
+  }, []);
+
+  return {
+    present: history.present,
+    update,
+    checkpoint,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from 'react';
+import { addRecentColor, getRecentColors, setRecentColors } from '../lib/recentColors';
+
+export function useRecentColors() {
+  const [colors, setColors] = useState<string[]>(getRecentColors);
+
+  useEffect(() => {
+    try {
+      setRecentColors(colors);
+    } catch (err) {
+      console.error('Error saving recent colors:', err);
+    }
+  }, [colors]);
+
+  const addColor = useCallback((color: string) => {
+    setColors(current => addRecentColor(current, color));
+  }, []);
+
+  return { colors, addColor };
+}
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getRoutePath, parseRoute, type Route } from '../lib/routes';
+
+export type Navigate = (route: Route, options?: { replace?: boolean }) => void;
+
+// The current route, kept in step with the address bar and the browser's back and forward buttons.
+export function useRoute() {
+  const [route, setRoute] = useState(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback<Navigate>((next, { replace = false } = {}) => {
+    const path = getRoutePath(next);
+    if (path !== window.location.pathname || window.location.hash) {
+      if (replace) window.history.replaceState(null, '', path);
+      else window.history.pushState(null, '', path);
+    }
+    setRoute(current => getRoutePath(current) === path ? current : next);
+  }, []);
+
+  return { route, navigate };
+}
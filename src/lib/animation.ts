@@ -0,0 +1,124 @@
+import type { Design } from './design';
+import type { Layer } from './layers';
+import type { LayerMotion, RenderScene } from './renderer';
+
+export type AnimationEffect = 'fade' | 'slide' | 'scale' | 'typewriter';
+export type SlideDirection = 'up' | 'down' | 'left' | 'right';
+export type AnimationPhase = 'entrance' | 'exit';
+
+// How a layer comes in or goes out. Times are in seconds, and both phases' delays count from the
+// start of the timeline, so an exit can be placed without knowing how long the entrance takes.
+export interface LayerAnimation {
+  effect: AnimationEffect;
+  // Which way a slide moves; ignored by the other effects.
+  direction: SlideDirection;
+  duration: number;
+  delay: number;
+}
+
+export const ANIMATION_EFFECTS: { effect: AnimationEffect; label: string; textOnly: boolean }[] = [
+  { effect: 'fade', label: 'Fade', textOnly: false },
+  { effect: 'slide', label: 'Slide', textOnly: false },
+  { effect: 'scale', label: 'Scale', textOnly: false },
+  { effect: 'typewriter', label: 'Typewriter', textOnly: true },
+];
+
+export const SLIDE_DIRECTIONS: SlideDirection[] = ['up', 'down', 'left', 'right'];
+
+export const DEFAULT_TIMELINE_DURATION = 5;
+export const MIN_TIMELINE_DURATION = 1;
+export const MAX_TIMELINE_DURATION = 15;
+
+export const ANIMATION_FPS = { gif: 15, webm: 30 };
+
+const DEFAULT_EFFECT_DURATION = 0.6;
+
+// How far a slide travels, as a percentage of the canvas.
+const SLIDE_DISTANCE = 15;
+
+const SLIDE_VECTORS: Record<SlideDirection, { x: number; y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+// Entrances start at the beginning and exits finish at the end of the timeline.
+export const createAnimation = (phase: AnimationPhase, effect: AnimationEffect, timelineDuration: number): LayerAnimation => ({
+  effect,
+  direction: 'up',
+  duration: DEFAULT_EFFECT_DURATION,
+  delay: phase === 'entrance' ? 0 : Math.max(0, timelineDuration - DEFAULT_EFFECT_DURATION),
+});
+
+export const isAnimated = (layer: Layer): boolean => layer.entrance !== null || layer.exit !== null;
+
+export const hasAnimations = (design: Design): boolean =>
+  [...design.pages.flatMap(page => page.layers), ...design.masterLayers].some(isAnimated);
+
+const easeOutCubic = (t: number) => 1 - (1 - t) ** 3;
+const easeInCubic = (t: number) => t ** 3;
+
+// 0 before the phase starts and 1 once it's done.
+const getProgress = ({ duration, delay }: LayerAnimation, time: number): number =>
+  duration <= 0 ? (time >= delay ? 1 : 0) : Math.min(1, Math.max(0, (time - delay) / duration));
+
+interface LayerFrame {
+  opacity: number;
+  offset: { x: number; y: number };
+  motion: LayerMotion;
+}
+
+// `shown` runs from 0, fully hidden by the effect, to 1, where the effect no longer applies.
+const applyEffect = (frame: LayerFrame, { effect, direction }: LayerAnimation, shown: number, travel: number): LayerFrame => {
+  switch (effect) {
+    case 'fade':
+      return { ...frame, opacity: frame.opacity * shown };
+    case 'slide': {
+      const vector = SLIDE_VECTORS[direction];
+      const distance = travel * (1 - shown) * SLIDE_DISTANCE;
+      return { ...frame, offset: { x: frame.offset.x + vector.x * distance, y: frame.offset.y + vector.y * distance } };
+    }
+    case 'scale':
+      return { ...frame, motion: { ...frame.motion, scale: frame.motion.scale * shown } };
+    case 'typewriter':
+      return { ...frame, motion: { ...frame.motion, reveal: Math.min(frame.motion.reveal, shown) } };
+  }
+};
+
+const getLayerFrame = (layer: Layer, time: number): LayerFrame => {
+  let frame: LayerFrame = { opacity: 1, offset: { x: 0, y: 0 }, motion: { scale: 1, reveal: 1 } };
+  // Typing is steady; the other effects ease into place and ease away.
+  if (layer.entrance) {
+    const progress = getProgress(layer.entrance, time);
+    const shown = layer.entrance.effect === 'typewriter' ? progress : easeOutCubic(progress);
+    // A slide in arrives from the opposite side to the one it moves toward.
+    frame = applyEffect(frame, layer.entrance, shown, -1);
+  }
+  if (layer.exit) {
+    const progress = getProgress(layer.exit, time);
+    const shown = 1 - (layer.exit.effect === 'typewriter' ? progress : easeInCubic(progress));
+    frame = applyEffect(frame, layer.exit, shown, 1);
+  }
+  return frame;
+};
+
+// The scene as it looks at a moment on the timeline, with each layer's effects applied.
+export const getSceneAtTime = (scene: RenderScene, time: number): RenderScene => {
+  const motion: Record<string, LayerMotion> = {};
+  const layers = scene.layers.map(layer => {
+    if (!isAnimated(layer)) return layer;
+    const frame = getLayerFrame(layer, time);
+    motion[layer.id] = frame.motion;
+    return {
+      ...layer,
+      opacity: layer.opacity * frame.opacity,
+      position: { x: layer.position.x + frame.offset.x, y: layer.position.y + frame.offset.y },
+    };
+  });
+  return { ...scene, layers, motion };
+};
+
+// Moments to draw for an animation at the given frame rate, one per frame, from the start.
+export const getFrameTimes = (duration: number, fps: number): number[] =>
+  Array.from({ length: Math.max(1, Math.round(duration * fps)) }, (_, index) => index / fps);
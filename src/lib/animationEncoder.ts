@@ -0,0 +1,105 @@
+import { applyPalette, GIFEncoder, quantize } from 'gifenc';
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { getFrameTimes, getSceneAtTime } from './animation';
+import { renderScene, type RenderResources, type RenderScene } from './renderer';
+
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface AnimationSettings {
+  format: AnimationFormat;
+  fps: number;
+}
+
+type FrameCanvas = HTMLCanvasElement | OffscreenCanvas;
+type FrameContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Frames at half-second intervals can always be decoded on their own, so players can seek.
+const KEYFRAME_INTERVAL = 0.5;
+const WEBM_BITS_PER_PIXEL = 4;
+
+const drawFrame = (ctx: FrameContext, scene: RenderScene, resources: RenderResources, time: number) => {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  renderScene(ctx, getSceneAtTime(scene, time), resources, { scale: 1, transparent: false });
+};
+
+// Each frame gets its own 256-color palette, so gradients and photos hold up as the picture changes.
+const encodeGif = (ctx: FrameContext, scene: RenderScene, resources: RenderResources, fps: number): Blob => {
+  const { width, height } = ctx.canvas;
+  const gif = GIFEncoder();
+  for (const time of getFrameTimes(scene.duration, fps)) {
+    drawFrame(ctx, scene, resources, time);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: 1000 / fps });
+  }
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+const encodeWebm = async (
+  canvas: FrameCanvas,
+  ctx: FrameContext,
+  scene: RenderScene,
+  resources: RenderResources,
+  fps: number
+): Promise<Blob> => {
+  if (typeof VideoEncoder === 'undefined') {
+    throw new Error('This browser can\'t export WebM video');
+  }
+  const { width, height } = canvas;
+  const config: VideoEncoderConfig = {
+    codec: 'vp09.00.10.08',
+    width,
+    height,
+    bitrate: width * height * WEBM_BITS_PER_PIXEL,
+    framerate: fps,
+  };
+  if (!(await VideoEncoder.isConfigSupported(config)).supported) {
+    throw new Error('This browser can\'t encode WebM video at this size');
+  }
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'V_VP9', width, height, frameRate: fps },
+  });
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (err) => {
+      encodeError = err;
+    },
+  });
+  encoder.configure(config);
+
+  const frameDuration = 1_000_000 / fps;
+  for (const [index, time] of getFrameTimes(scene.duration, fps).entries()) {
+    drawFrame(ctx, scene, resources, time);
+    const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+    encoder.encode(frame, { keyFrame: index % Math.round(fps * KEYFRAME_INTERVAL) === 0 });
+    frame.close();
+    // Waits for the encoder to catch up rather than queuing every frame in memory.
+    while (encoder.encodeQueueSize > fps) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'video/webm' });
+};
+
+// Plays the scene's timeline onto the canvas frame by frame and encodes the result. The canvas
+// must be the design's pixel size; animations are always exported at 1x.
+export const encodeAnimation = async (
+  canvas: FrameCanvas,
+  scene: RenderScene,
+  resources: RenderResources,
+  { format, fps }: AnimationSettings
+): Promise<Blob> => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: format === 'gif' }) as FrameContext | null;
+  if (!ctx) throw new Error('Could not create a canvas to render on');
+  return format === 'gif'
+    ? encodeGif(ctx, scene, resources, fps)
+    : encodeWebm(canvas, ctx, scene, resources, fps);
+};
@@ -0,0 +1,93 @@
+export type BackgroundFit = 'cover' | 'contain' | 'stretch';
+
+export const BACKGROUND_FITS: BackgroundFit[] = ['cover', 'contain', 'stretch'];
+
+export type BackgroundFill =
+  | { type: 'solid'; color: string }
+  | { type: 'linear'; from: string; to: string; angle: number }
+  | { type: 'radial'; from: string; to: string };
+
+export type BackgroundFillType = BackgroundFill['type'];
+
+export const BACKGROUND_FILL_TYPES: { type: BackgroundFillType; label: string }[] = [
+  { type: 'solid', label: 'Solid' },
+  { type: 'linear', label: 'Linear' },
+  { type: 'radial', label: 'Radial' },
+];
+
+// How the template image sits in the frame and how it's toned down so text on top stays readable.
+export interface BackgroundImageSettings {
+  fit: BackgroundFit;
+  // 1 fills the frame as the fit mode dictates; higher values crop in.
+  zoom: number;
+  // Pan as a percentage of the canvas width and height.
+  offsetX: number;
+  offsetY: number;
+  // Percentages, where 100 leaves the image unchanged.
+  brightness: number;
+  contrast: number;
+  // In canvas pixels.
+  blur: number;
+  // Opacity of a black layer drawn over the image, 0-1.
+  overlay: number;
+}
+
+export interface Background {
+  // Painted behind the template image, or on its own when the design has none.
+  fill: BackgroundFill;
+  image: BackgroundImageSettings;
+}
+
+export const DEFAULT_IMAGE_SETTINGS: BackgroundImageSettings = {
+  fit: 'cover',
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  brightness: 100,
+  contrast: 100,
+  blur: 0,
+  overlay: 0,
+};
+
+// Designs without a background were exported on white.
+export const DEFAULT_BACKGROUND: Background = {
+  fill: { type: 'solid', color: '#FFFFFF' },
+  image: DEFAULT_IMAGE_SETTINGS,
+};
+
+// Switching fill type keeps the colors already picked.
+export const changeFillType = (fill: BackgroundFill, type: BackgroundFillType): BackgroundFill => {
+  const from = fill.type === 'solid' ? fill.color : fill.from;
+  const to = fill.type === 'solid' ? '#000000' : fill.to;
+  switch (type) {
+    case 'solid':
+      return { type, color: from };
+    case 'linear':
+      return { type, from, to, angle: fill.type === 'linear' ? fill.angle : 180 };
+    case 'radial':
+      return { type, from, to };
+  }
+};
+
+export const getFillCss = (fill: BackgroundFill): string => {
+  switch (fill.type) {
+    case 'solid':
+      return fill.color;
+    case 'linear':
+      return `linear-gradient(${fill.angle}deg, ${fill.from}, ${fill.to})`;
+    case 'radial':
+      return `radial-gradient(circle, ${fill.from}, ${fill.to})`;
+  }
+};
+
+const OBJECT_FITS: Record<BackgroundFit, React.CSSProperties['objectFit']> = {
+  cover: 'cover',
+  contain: 'contain',
+  stretch: 'fill',
+};
+
+export const getImageStyle = (image: BackgroundImageSettings): React.CSSProperties => ({
+  objectFit: OBJECT_FITS[image.fit],
+  transform: `translate(${image.offsetX}%, ${image.offsetY}%) scale(${image.zoom})`,
+  filter: `brightness(${image.brightness}%) contrast(${image.contrast}%) blur(${image.blur}px)`,
+});
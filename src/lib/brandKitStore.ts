@@ -0,0 +1,35 @@
+import type { BrandKit } from './brandKits';
+import { BRAND_KITS, openDatabase, requestToPromise, transactionDone } from './db';
+
+const ACTIVE_BRAND_KIT_KEY = 'smm-static:active-brand-kit';
+
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const db = await openDatabase();
+  const kits = await requestToPromise<BrandKit[]>(db.transaction(BRAND_KITS).objectStore(BRAND_KITS).getAll());
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BRAND_KITS, 'readwrite');
+  transaction.objectStore(BRAND_KITS).put(kit);
+  await transactionDone(transaction);
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BRAND_KITS, 'readwrite');
+  transaction.objectStore(BRAND_KITS).delete(id);
+  await transactionDone(transaction);
+};
+
+// The active kit applies across designs, so it's remembered per browser rather than per design.
+export const getActiveBrandKitId = (): string | null => localStorage.getItem(ACTIVE_BRAND_KIT_KEY);
+
+export const setActiveBrandKitId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_BRAND_KIT_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_BRAND_KIT_KEY);
+  }
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { BrandKitParseError, createBrandKit, parseBrandKit, serializeBrandKit } from './brandKits';
+
+describe('parseBrandKit', () => {
+  it('reads back what serializeBrandKit writes, under a new id', () => {
+    const kit = { ...createBrandKit('Acme'), colors: [{ name: 'Red', value: '#FF0000' }], fonts: ['Lato'] };
+    const parsed = parseBrandKit(serializeBrandKit(kit));
+    expect(parsed.id).not.toBe(kit.id);
+    expect({ ...parsed, id: kit.id }).toEqual(kit);
+  });
+
+  it('reports fields of the wrong type with their paths', () => {
+    const json = JSON.stringify({ name: 'Acme', colors: [{ name: 'Red', value: 7 }] });
+    expect(() => parseBrandKit(json)).toThrow(BrandKitParseError);
+    expect(() => parseBrandKit(json)).toThrow('colors[0].value must be a string');
+  });
+});
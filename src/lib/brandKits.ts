@@ -0,0 +1,149 @@
+import type { TextLayer } from './layers';
+import { createReaders, isRecord, type RawObject } from './parsing';
+
+export interface BrandColor {
+  name: string;
+  value: string;
+}
+
+export type BrandTextRole = 'heading' | 'subheading' | 'body';
+
+export type BrandTextStyle = Pick<TextLayer, 'fontFamily' | 'fontSize' | 'fontWeight' | 'color'>;
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  // Image data URL, so kits stay self-contained when exported.
+  src: string;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  colors: BrandColor[];
+  // Fonts the text editor is limited to while the kit is active; empty allows every font.
+  fonts: string[];
+  textStyles: Record<BrandTextRole, BrandTextStyle>;
+  logos: BrandLogo[];
+}
+
+interface BrandKitDocument extends Omit<BrandKit, 'id'> {
+  version: number;
+}
+
+const BRAND_KIT_SCHEMA_VERSION = 1;
+
+export const BRAND_TEXT_ROLES: { role: BrandTextRole; label: string }[] = [
+  { role: 'heading', label: 'Heading' },
+  { role: 'subheading', label: 'Subheading' },
+  { role: 'body', label: 'Body' },
+];
+
+export const DEFAULT_BRAND_TEXT_STYLES: Record<BrandTextRole, BrandTextStyle> = {
+  heading: { fontFamily: 'Montserrat', fontSize: '72px', fontWeight: 'bold', color: '#FFFFFF' },
+  subheading: { fontFamily: 'Montserrat', fontSize: '48px', fontWeight: '600', color: '#FFFFFF' },
+  body: { fontFamily: 'Open Sans', fontSize: '32px', fontWeight: 'normal', color: '#FFFFFF' },
+};
+
+export class BrandKitParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrandKitParseError';
+  }
+}
+
+export const createBrandKitId = () => crypto.randomUUID();
+
+export const createBrandKit = (name: string): BrandKit => ({
+  id: createBrandKitId(),
+  name,
+  colors: [],
+  fonts: [],
+  textStyles: DEFAULT_BRAND_TEXT_STYLES,
+  logos: [],
+});
+
+export const createBrandLogo = (name: string, src: string): BrandLogo => ({ id: crypto.randomUUID(), name, src });
+
+const { readString } = createReaders(BrandKitParseError);
+
+const readList = <T>(raw: RawObject, key: string, parse: (value: unknown, path: string) => T): T[] => {
+  const value = raw[key] ?? [];
+  if (!Array.isArray(value)) {
+    throw new BrandKitParseError(`${key} must be a list`);
+  }
+  return value.map((item, index) => parse(item, `${key}[${index}]`));
+};
+
+const readObject = (value: unknown, path: string): RawObject => {
+  if (!isRecord(value)) {
+    throw new BrandKitParseError(`${path} must be an object`);
+  }
+  return value;
+};
+
+const parseTextStyle = (raw: unknown, path: string, fallback: BrandTextStyle): BrandTextStyle => {
+  if (raw === undefined) return fallback;
+  const style = readObject(raw, path);
+  return {
+    fontFamily: readString(style, 'fontFamily', path),
+    fontSize: readString(style, 'fontSize', path),
+    fontWeight: readString(style, 'fontWeight', path),
+    color: readString(style, 'color', path),
+  };
+};
+
+export const serializeBrandKit = (kit: BrandKit): string => {
+  const saved: BrandKitDocument = {
+    version: BRAND_KIT_SCHEMA_VERSION,
+    name: kit.name,
+    colors: kit.colors,
+    fonts: kit.fonts,
+    textStyles: kit.textStyles,
+    logos: kit.logos,
+  };
+  return JSON.stringify(saved, null, 2);
+};
+
+// Imported kits always get a fresh id so they never overwrite an existing kit.
+export const parseBrandKit = (json: string): BrandKit => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new BrandKitParseError('The file is not valid JSON');
+  }
+  if (!isRecord(raw) || typeof raw.name !== 'string') {
+    throw new BrandKitParseError('The file does not contain a brand kit');
+  }
+  if (typeof raw.version === 'number' && raw.version > BRAND_KIT_SCHEMA_VERSION) {
+    throw new BrandKitParseError(
+      `This brand kit was saved by a newer version of the editor (v${raw.version}); this editor supports up to v${BRAND_KIT_SCHEMA_VERSION}`
+    );
+  }
+
+  const textStyles = raw.textStyles === undefined ? {} : readObject(raw.textStyles, 'textStyles');
+  return {
+    id: createBrandKitId(),
+    name: raw.name,
+    colors: readList(raw, 'colors', (value, path) => {
+      const color = readObject(value, path);
+      return { name: readString(color, 'name', path), value: readString(color, 'value', path) };
+    }),
+    fonts: readList(raw, 'fonts', (value, path) => {
+      if (typeof value !== 'string') {
+        throw new BrandKitParseError(`${path} must be a font name`);
+      }
+      return value;
+    }),
+    textStyles: {
+      heading: parseTextStyle(textStyles.heading, 'textStyles.heading', DEFAULT_BRAND_TEXT_STYLES.heading),
+      subheading: parseTextStyle(textStyles.subheading, 'textStyles.subheading', DEFAULT_BRAND_TEXT_STYLES.subheading),
+      body: parseTextStyle(textStyles.body, 'textStyles.body', DEFAULT_BRAND_TEXT_STYLES.body),
+    },
+    logos: readList(raw, 'logos', (value, path) => {
+      const logo = readObject(value, path);
+      return createBrandLogo(readString(logo, 'name', path), readString(logo, 'src', path));
+    }),
+  };
+};
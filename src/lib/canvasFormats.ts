@@ -0,0 +1,31 @@
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+export interface CanvasFormat extends CanvasSize {
+  id: string;
+  name: string;
+}
+
+export const CANVAS_FORMATS: CanvasFormat[] = [
+  { id: 'instagram-portrait', name: 'Instagram Portrait', width: 1080, height: 1350 },
+  { id: 'instagram-square', name: 'Instagram Square', width: 1080, height: 1080 },
+  { id: 'instagram-story', name: 'Instagram Story', width: 1080, height: 1920 },
+  { id: 'facebook-post', name: 'Facebook Post', width: 1200, height: 630 },
+  { id: 'x-post', name: 'X Post', width: 1600, height: 900 },
+  { id: 'linkedin-post', name: 'LinkedIn Post', width: 1200, height: 627 },
+  { id: 'youtube-thumbnail', name: 'YouTube Thumbnail', width: 1280, height: 720 },
+];
+
+// The editor's original fixed 4:5 preview matches the Instagram portrait post.
+export const DEFAULT_CANVAS: CanvasSize = { width: 1080, height: 1350 };
+
+export const MIN_CANVAS_DIMENSION = 100;
+export const MAX_CANVAS_DIMENSION = 8000;
+
+export const findCanvasFormat = ({ width, height }: CanvasSize): CanvasFormat | undefined =>
+  CANVAS_FORMATS.find(format => format.width === width && format.height === height);
+
+export const clampCanvasDimension = (value: number): number =>
+  Math.min(MAX_CANVAS_DIMENSION, Math.max(MIN_CANVAS_DIMENSION, Math.round(value)));
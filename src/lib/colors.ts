@@ -0,0 +1,116 @@
+// Channels are 0-255 and alpha 0-1.
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const clampChannel = (value: number) => Math.min(255, Math.max(0, value));
+const clampAlpha = (value: number) => Math.min(1, Math.max(0, value));
+
+const parseHex = (hex: string): Rgba | null => {
+  if (!/^[0-9a-f]+$/i.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null;
+  const digits = hex.length <= 4 ? [...hex].map(digit => digit + digit) : hex.match(/../g) ?? [];
+  const [r, g, b, a = 255] = digits.map(pair => parseInt(pair, 16));
+  return { r, g, b, a: a / 255 };
+};
+
+// A number in a color function, where a percentage is of `percentOf`: 255 for rgb() channels, 1 otherwise.
+const parseNumber = (value: string, percentOf: number): number | null => {
+  const number = parseFloat(value);
+  if (!/^-?(\d+\.?\d*|\.\d+)%?$/.test(value) || !Number.isFinite(number)) return null;
+  return value.endsWith('%') ? (number / 100) * percentOf : number;
+};
+
+// The arguments of a color function, in both the comma form and the space form with a slash
+// before the alpha. Null unless there are three, plus the optional alpha.
+const splitArguments = (args: string): string[] | null => {
+  const parts = args.includes(',')
+    ? args.split(',').map(part => part.trim())
+    : args.replace('/', ' / ').split(/\s+/).filter(part => part !== '/');
+  return parts.length === 3 || parts.length === 4 ? parts : null;
+};
+
+const parseAlpha = (value: string | undefined): number | null =>
+  value === undefined ? 1 : parseNumber(value, 1);
+
+const parseRgb = (args: string): Rgba | null => {
+  const parts = splitArguments(args);
+  if (!parts) return null;
+  const [r, g, b] = parts.slice(0, 3).map(part => parseNumber(part, 255));
+  const a = parseAlpha(parts[3]);
+  if (r === null || g === null || b === null || a === null) return null;
+  return { r: clampChannel(r), g: clampChannel(g), b: clampChannel(b), a: clampAlpha(a) };
+};
+
+const parseHsl = (args: string): Rgba | null => {
+  const parts = splitArguments(args);
+  if (!parts || !parts[1].endsWith('%') || !parts[2].endsWith('%')) return null;
+  const hue = parseNumber(parts[0].replace(/deg$/, ''), 360);
+  const saturation = parseNumber(parts[1], 1);
+  const lightness = parseNumber(parts[2], 1);
+  const a = parseAlpha(parts[3]);
+  if (hue === null || saturation === null || lightness === null || a === null) return null;
+
+  const h = ((hue % 360) + 360) % 360;
+  const s = clampAlpha(saturation);
+  const l = clampAlpha(lightness);
+  const chroma = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return (l - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return { r: channel(0), g: channel(8), b: channel(4), a: clampAlpha(a) };
+};
+
+// Reads hex, rgb()/rgba() and hsl()/hsla() colors. Anything else, named colors included, gives null.
+export const parseColor = (value: string): Rgba | null => {
+  const color = value.trim().toLowerCase();
+  if (color === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (color.startsWith('#')) return parseHex(color.slice(1));
+  const match = color.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (!match) return null;
+  return match[1].startsWith('rgb') ? parseRgb(match[2].trim()) : parseHsl(match[2].trim());
+};
+
+export const isValidColor = (value: string): boolean => parseColor(value) !== null;
+
+const toHexPair = (channel: number) => Math.round(clampChannel(channel)).toString(16).padStart(2, '0');
+
+// Drops the alpha; see `formatColor` for colors that keep it.
+export const toHex = ({ r, g, b }: Rgba): string => `#${toHexPair(r)}${toHexPair(g)}${toHexPair(b)}`.toUpperCase();
+
+// Opaque colors come out as hex, and see-through ones as rgba().
+export const formatColor = (color: Rgba): string => {
+  if (color.a >= 1) return toHex(color);
+  const alpha = Math.round(color.a * 100) / 100;
+  return `rgba(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)}, ${alpha})`;
+};
+
+// `top` painted over `bottom` with its alpha scaled by `opacity`, as the canvas blends them.
+export const composite = (top: Rgba, bottom: Rgba, opacity = 1): Rgba => {
+  const alpha = top.a * opacity;
+  const a = alpha + bottom.a * (1 - alpha);
+  if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  const blend = (over: number, under: number) => (over * alpha + under * bottom.a * (1 - alpha)) / a;
+  return { r: blend(top.r, bottom.r), g: blend(top.g, bottom.g), b: blend(top.b, bottom.b), a };
+};
+
+// `amount` of the way from one color to the other, alpha included.
+export const mixColors = (from: Rgba, to: Rgba, amount: number): Rgba => ({
+  r: from.r + (to.r - from.r) * amount,
+  g: from.g + (to.g - from.g) * amount,
+  b: from.b + (to.b - from.b) * amount,
+  a: from.a + (to.a - from.a) * amount,
+});
+
+export const BLACK: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+export const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+
+// Whether two colors are the same however they're written, e.g. #fff and rgb(255, 255, 255).
+export const sameColor = (a: string, b: string): boolean => {
+  const first = parseColor(a);
+  const second = parseColor(b);
+  return first && second ? formatColor(first) === formatColor(second) : a === b;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { BLACK, WHITE, parseColor } from './colors';
+import { AA_CONTRAST, AA_LARGE_CONTRAST, getContrastRatio, isLargeText } from './contrast';
+
+describe('isLargeText', () => {
+  it('counts text from 24px as large at any weight', () => {
+    expect(isLargeText(24, 'normal')).toBe(true);
+    expect(isLargeText(23, 'normal')).toBe(false);
+  });
+
+  it('counts bold text from 18.66px as large, whether the weight is a keyword or a number', () => {
+    expect(isLargeText(20, 'bold')).toBe(true);
+    expect(isLargeText(20, '700')).toBe(true);
+    expect(isLargeText(20, '800')).toBe(true);
+    expect(isLargeText(18, 'bold')).toBe(false);
+  });
+
+  it('holds lighter text under 24px to the body text minimum', () => {
+    expect(isLargeText(20, 'normal')).toBe(false);
+    expect(isLargeText(20, '600')).toBe(false);
+  });
+});
+
+describe('getContrastRatio', () => {
+  it('matches the WCAG ratios', () => {
+    expect(getContrastRatio(BLACK, WHITE)).toBeCloseTo(21);
+    expect(getContrastRatio(WHITE, WHITE)).toBeCloseTo(1);
+    // #767676 is the lightest gray that passes on white, and #949494 the lightest for large text.
+    expect(getContrastRatio(parseColor('#767676')!, WHITE)).toBeGreaterThanOrEqual(AA_CONTRAST);
+    expect(getContrastRatio(parseColor('#777777')!, WHITE)).toBeLessThan(AA_CONTRAST);
+    expect(getContrastRatio(parseColor('#949494')!, WHITE)).toBeGreaterThanOrEqual(AA_LARGE_CONTRAST);
+    expect(getContrastRatio(parseColor('#959595')!, WHITE)).toBeLessThan(AA_LARGE_CONTRAST);
+  });
+});
@@ -0,0 +1,152 @@
+import { BLACK, WHITE, composite, formatColor, mixColors, parseColor, type Rgba } from './colors';
+import { DEFAULT_TEXT_BACKGROUND, type TextBackground, type TextLayer } from './layers';
+import { layoutText, renderScene, type RenderContext, type RenderResources, type RenderScene } from './renderer';
+
+// WCAG 2 level AA: 4.5:1 for body text and 3:1 for large text.
+export const AA_CONTRAST = 4.5;
+export const AA_LARGE_CONTRAST = 3;
+
+// The page is drawn at a quarter size for sampling, which is plenty to tell what's behind the text.
+const SAMPLE_SCALE = 0.25;
+// Points sampled across each side of a text box.
+const SAMPLE_GRID = 8;
+// A layer is judged on the worst tenth of what's behind it, so one busy patch of a photo counts.
+const SAMPLE_PERCENTILE = 0.1;
+// Outlines at least this thick are what the text is read against, rather than the page.
+const MIN_OUTLINE_WIDTH = 2;
+// Suggested colors step this many times toward black or white before giving up.
+const SUGGESTION_STEPS = 20;
+
+const DARK_BACKDROP: Rgba = { r: 0, g: 0, b: 0, a: 0.75 };
+const LIGHT_BACKDROP: Rgba = { r: 255, g: 255, b: 255, a: 0.85 };
+
+export interface ContrastReport {
+  layerId: string;
+  ratio: number;
+  required: number;
+  // The nearest color toward black or white that passes, or null when neither gets there.
+  suggestedColor: string | null;
+  // A box behind the text that passes whatever the page shows underneath.
+  backdrop: TextBackground;
+}
+
+const linearChannel = (value: number) => {
+  const channel = value / 255;
+  return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+};
+
+export const getLuminance = ({ r, g, b }: Rgba): number =>
+  0.2126 * linearChannel(r) + 0.7152 * linearChannel(g) + 0.0722 * linearChannel(b);
+
+export const getContrastRatio = (a: Rgba, b: Rgba): number => {
+  const [lighter, darker] = [getLuminance(a), getLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// CSS weight keywords as numbers; the default text weight is 'bold'.
+const FONT_WEIGHT_KEYWORDS: Record<string, number> = { normal: 400, bold: 700 };
+
+// Large text is 18pt, or 14pt when bold: 24px and about 18.7px.
+export const isLargeText = (fontSize: number, fontWeight: string): boolean =>
+  fontSize >= 24 || ((FONT_WEIGHT_KEYWORDS[fontWeight] ?? Number(fontWeight)) >= 700 && fontSize >= 18.66);
+
+export const hasContrastIssue = ({ ratio, required }: ContrastReport): boolean => ratio < required;
+
+export const formatRatio = (ratio: number): string => `${Math.floor(ratio * 10) / 10}:1`;
+
+export const sameReports = (a: ContrastReport[], b: ContrastReport[]): boolean =>
+  a.length === b.length &&
+  a.every((report, i) =>
+    report.layerId === b[i].layerId &&
+    report.ratio === b[i].ratio &&
+    report.required === b[i].required &&
+    report.suggestedColor === b[i].suggestedColor &&
+    report.backdrop.color === b[i].backdrop.color
+  );
+
+// Colors of the page at a grid of points across the text's box, rotation included.
+const sampleBox = (pixels: ImageData, layer: TextLayer, scene: RenderScene, width: number, height: number): Rgba[] => {
+  const radians = (layer.rotation * Math.PI) / 180;
+  const centerX = (scene.canvas.width * layer.position.x) / 100;
+  const centerY = (scene.canvas.height * layer.position.y) / 100;
+  const samples: Rgba[] = [];
+  for (let row = 0; row < SAMPLE_GRID; row++) {
+    for (let column = 0; column < SAMPLE_GRID; column++) {
+      const dx = ((column + 0.5) / SAMPLE_GRID - 0.5) * width;
+      const dy = ((row + 0.5) / SAMPLE_GRID - 0.5) * height;
+      const x = Math.floor((centerX + dx * Math.cos(radians) - dy * Math.sin(radians)) * SAMPLE_SCALE);
+      const y = Math.floor((centerY + dx * Math.sin(radians) + dy * Math.cos(radians)) * SAMPLE_SCALE);
+      if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) continue;
+      const offset = (y * pixels.width + x) * 4;
+      samples.push({ r: pixels.data[offset], g: pixels.data[offset + 1], b: pixels.data[offset + 2], a: 1 });
+    }
+  }
+  return samples;
+};
+
+const checkLayer = (ctx: RenderContext, layer: TextLayer, scene: RenderScene, resources: RenderResources): ContrastReport | null => {
+  // Gradient text is as readable as the weaker of its two ends.
+  const parsed = (layer.gradient ? [layer.gradient.from, layer.gradient.to] : [layer.color]).map(parseColor);
+  if (parsed.includes(null)) return null;
+  const colors = parsed as Rgba[];
+  const { fontSize, width, height } = layoutText(ctx, layer, scene.canvas, resources.fontStacks);
+  const pixels = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  const samples = sampleBox(pixels, layer, scene, width, height);
+  if (samples.length === 0) return null;
+
+  const box = layer.background && parseColor(layer.background.color);
+  const outline = layer.strokeWidth >= MIN_OUTLINE_WIDTH ? parseColor(layer.strokeColor) : null;
+  // What sits right behind the letters at each point: the outline, the text's own box or the page.
+  const behind = samples.map(sample => {
+    const under = box ? composite(box, sample, layer.opacity) : sample;
+    return outline ? composite(outline, under, layer.opacity) : under;
+  });
+  const getRatio = (text: Rgba) => {
+    const ratios = behind.map(background => getContrastRatio(composite(text, background, layer.opacity), background)).sort((a, b) => a - b);
+    return ratios[Math.floor(ratios.length * SAMPLE_PERCENTILE)];
+  };
+
+  const required = isLargeText(fontSize, layer.fontWeight) ? AA_LARGE_CONTRAST : AA_CONTRAST;
+  const ratio = Math.min(...colors.map(getRatio));
+  // Only solid colors get a suggestion; a gradient is left to the backdrop.
+  let suggestion: Rgba | null = null;
+  for (let step = 1; step <= SUGGESTION_STEPS && ratio < required && !suggestion && !layer.gradient; step++) {
+    suggestion = [BLACK, WHITE]
+      .map(target => mixColors(colors[0], target, step / SUGGESTION_STEPS))
+      .find(candidate => getRatio(candidate) >= required) ?? null;
+  }
+
+  const contrastWith = (backdrop: Rgba) => Math.min(...colors.map(fill => getContrastRatio(fill, backdrop)));
+  const backdrop = contrastWith(BLACK) > contrastWith(WHITE) ? DARK_BACKDROP : LIGHT_BACKDROP;
+  return {
+    layerId: layer.id,
+    ratio,
+    required,
+    suggestedColor: suggestion && formatColor(suggestion),
+    backdrop: { ...(layer.background ?? DEFAULT_TEXT_BACKGROUND), color: formatColor(backdrop) },
+  };
+};
+
+// Measures each visible text layer against what's drawn beneath it: the background and every
+// layer below, as the renderer draws them. Images must be decoded and fonts loaded, as for
+// `renderScene`.
+export const getContrastReports = (scene: RenderScene, resources: RenderResources): ContrastReport[] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(scene.canvas.width * SAMPLE_SCALE));
+  canvas.height = Math.max(1, Math.round(scene.canvas.height * SAMPLE_SCALE));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+
+  renderScene(ctx, { ...scene, layers: [] }, resources, { scale: SAMPLE_SCALE, transparent: false });
+  const reports: ContrastReport[] = [];
+  for (const layer of scene.layers) {
+    if (layer.hidden) continue;
+    if (layer.type === 'text' && layer.text.trim()) {
+      const report = checkLayer(ctx, layer, scene, resources);
+      if (report) reports.push(report);
+    }
+    // Layers are added one at a time on top of what's there; without a template nothing else is redrawn.
+    renderScene(ctx, { ...scene, template: undefined, layers: [layer] }, resources, { scale: SAMPLE_SCALE, transparent: true });
+  }
+  return reports;
+};
@@ -0,0 +1,63 @@
+export interface CsvTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Rows pasted from a spreadsheet arrive tab-separated; files are usually comma-separated.
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+};
+
+const parseRecords = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines are common at the end of exported files.
+  return records.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Parses CSV (or tab-separated) text whose first row holds the column names.
+export const parseCsv = (text: string): CsvTable => {
+  const [headerRecord, ...records] = parseRecords(text.replace(/^\uFEFF/, ''), detectDelimiter(text));
+  if (!headerRecord) return { headers: [], rows: [] };
+
+  const headers = headerRecord.map(header => header.trim());
+  const rows = records.map(record =>
+    Object.fromEntries(headers.map((header, index) => [header, record[index]?.trim() ?? '']))
+  );
+  return { headers, rows };
+};
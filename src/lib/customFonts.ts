@@ -0,0 +1,108 @@
+import { CUSTOM_FONTS, openDatabase, requestToPromise, transactionDone } from './db';
+import { findFont, registerFont, unregisterFont } from './fonts';
+
+export interface CustomFont {
+  id: string;
+  family: string;
+  fileName: string;
+  format: CustomFontFormat;
+  data: ArrayBuffer;
+}
+
+type CustomFontFormat = 'truetype' | 'opentype' | 'woff' | 'woff2';
+
+const FORMATS_BY_EXTENSION: Record<string, CustomFontFormat> = {
+  ttf: 'truetype',
+  otf: 'opentype',
+  woff: 'woff',
+  woff2: 'woff2',
+};
+
+const MIME_TYPES: Record<CustomFontFormat, string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+export const CUSTOM_FONT_ACCEPT = Object.keys(FORMATS_BY_EXTENSION).map(extension => `.${extension}`).join(',');
+
+export class CustomFontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomFontError';
+  }
+}
+
+// Checks the file really is a font the browser can use and names it after the file, e.g. "Acme-Bold.otf" → "Acme Bold".
+// Quotes, backslashes, semicolons and braces are dropped from the name, since it goes into CSS.
+export const readFontFile = async (file: File): Promise<CustomFont> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const format = FORMATS_BY_EXTENSION[extension];
+  if (!format) {
+    throw new CustomFontError(`${file.name} is not a TTF, OTF, WOFF or WOFF2 font`);
+  }
+
+  const family = file.name
+    .slice(0, -(extension.length + 1))
+    .replace(/["'\\;{}]+/g, '')
+    .replace(/[-_]+/g, ' ')
+    .trim() || 'Custom font';
+  if (findFont(family)) {
+    throw new CustomFontError(`A font called "${family}" is already available`);
+  }
+
+  const data = await file.arrayBuffer();
+  try {
+    await new FontFace(family, data).load();
+  } catch {
+    throw new CustomFontError(`${file.name} could not be read as a font`);
+  }
+  return { id: crypto.randomUUID(), family, fileName: file.name, format, data };
+};
+
+export const listCustomFonts = async (): Promise<CustomFont[]> => {
+  const db = await openDatabase();
+  const fonts = await requestToPromise<CustomFont[]>(db.transaction(CUSTOM_FONTS).objectStore(CUSTOM_FONTS).getAll());
+  return fonts.sort((a, b) => a.family.localeCompare(b.family));
+};
+
+export const saveCustomFont = async (font: CustomFont): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CUSTOM_FONTS, 'readwrite');
+  transaction.objectStore(CUSTOM_FONTS).put(font);
+  await transactionDone(transaction);
+};
+
+export const deleteCustomFont = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CUSTOM_FONTS, 'readwrite');
+  transaction.objectStore(CUSTOM_FONTS).delete(id);
+  await transactionDone(transaction);
+};
+
+// Uploaded fonts are declared with plain @font-face rules rather than the FontFace API, because
+// html-to-image only embeds fonts it finds in the page's stylesheets.
+const registered = new Map<string, { url: string; style: HTMLStyleElement }>();
+
+export const registerCustomFont = (font: CustomFont) => {
+  if (registered.has(font.id)) return;
+  const url = URL.createObjectURL(new Blob([font.data], { type: MIME_TYPES[font.format] }));
+  const style = document.createElement('style');
+  style.dataset.customFont = font.family;
+  // The name comes from the uploaded file, so it is escaped for the CSS string.
+  style.textContent = `@font-face { font-family: "${CSS.escape(font.family)}"; src: url(${url}) format("${font.format}"); font-display: block; }`;
+  document.head.appendChild(style);
+  registered.set(font.id, { url, style });
+  registerFont({ family: font.family, category: 'custom' });
+};
+
+export const unregisterCustomFont = (font: CustomFont) => {
+  const entry = registered.get(font.id);
+  if (entry) {
+    entry.style.remove();
+    URL.revokeObjectURL(entry.url);
+    registered.delete(font.id);
+  }
+  unregisterFont(font.family);
+};
@@ -0,0 +1,49 @@
+const DB_NAME = 'smm-static';
+const DB_VERSION = 3;
+
+// Design summaries are kept apart from the documents so the library can list designs
+// without reading every embedded template image.
+export const DESIGN_SUMMARIES = 'designs';
+export const DESIGN_DOCUMENTS = 'documents';
+export const BRAND_KITS = 'brandKits';
+export const CUSTOM_FONTS = 'fonts';
+
+const STORES = [DESIGN_SUMMARIES, DESIGN_DOCUMENTS, BRAND_KITS, CUSTOM_FONTS];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Every store is keyed by id; creating only the missing ones upgrades older databases in place.
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of STORES) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
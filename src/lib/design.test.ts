@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TIMELINE_DURATION } from './animation';
+import { DEFAULT_BACKGROUND } from './background';
+import { parseDesign, serializeDesign, type Design } from './design';
+import { createShapeLayer, createTextLayer } from './layers';
+
+const parse = (doc: object) => () => parseDesign(JSON.stringify(doc));
+
+describe('parseDesign', () => {
+  it('reads back what serializeDesign writes', () => {
+    const design: Design = {
+      canvas: { width: 1080, height: 1350 },
+      pages: [{ id: 'page', background: DEFAULT_BACKGROUND, layers: [createTextLayer(), createShapeLayer('ellipse')] }],
+      masterLayers: [],
+      duration: 5,
+    };
+    expect(parseDesign(serializeDesign(design))).toEqual(design);
+  });
+
+  it('migrates single-page v3 designs', () => {
+    const design = parseDesign(JSON.stringify({
+      version: 3,
+      canvas: { width: 1080, height: 1080 },
+      layers: [{ id: 'a', type: 'shape', position: { x: 10, y: 20 } }],
+    }));
+    expect(design.pages).toHaveLength(1);
+    expect(design.pages[0].layers.map(layer => layer.id)).toEqual(['a']);
+  });
+
+  it('names the fields of old files as they are written in them', () => {
+    expect(parse({ texts: 'hello' })).toThrow(/^texts must be a list$/);
+    const canvas = { width: 1080, height: 1080 };
+    expect(parse({ version: 2, canvas, texts: [{ id: 'a' }] })).toThrow(/^texts\[0\]\.position must be an object with x and y$/);
+    expect(parse({ version: 2, canvas, texts: [], template: 42 })).toThrow(/^template must be an image data URL$/);
+    expect(parse({ version: 3, canvas, layers: {} })).toThrow(/^layers must be a list$/);
+    expect(parse({ version: 3, canvas, layers: [], background: 'red' })).toThrow(/^background must be an object$/);
+  });
+
+  it('rejects animations that could never play', () => {
+    const withEntrance = (entrance: object) => parse({
+      version: 4,
+      canvas: { width: 1080, height: 1080 },
+      pages: [{ id: 'p', layers: [{ id: 'a', type: 'shape', position: { x: 0, y: 0 }, entrance }] }],
+    });
+    expect(withEntrance({ effect: 'fade', duration: 0.6, delay: 1 })).not.toThrow();
+    expect(withEntrance({ effect: 'fade', duration: -3 }))
+      .toThrow(`pages[0].layers[0].entrance.duration must be more than 0 and at most ${MAX_TIMELINE_DURATION} seconds`);
+    expect(withEntrance({ effect: 'fade', duration: 0.6, delay: -1 }))
+      .toThrow(`pages[0].layers[0].entrance.delay must be between 0 and ${MAX_TIMELINE_DURATION} seconds`);
+    expect(withEntrance({ effect: 'fade', duration: 0.6, delay: 1e9 })).toThrow('entrance.delay must be between');
+  });
+
+  it('names the fields of current files by page', () => {
+    expect(parse({ version: 4, canvas: { width: 1080, height: 1080 }, pages: [{ id: 'p', layers: null }] }))
+      .toThrow('pages[0].layers must be a list');
+  });
+});
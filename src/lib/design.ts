@@ -0,0 +1,386 @@
+import {
+  ANIMATION_EFFECTS,
+  DEFAULT_TIMELINE_DURATION,
+  MAX_TIMELINE_DURATION,
+  MIN_TIMELINE_DURATION,
+  SLIDE_DIRECTIONS,
+  type LayerAnimation,
+} from './animation';
+import {
+  BACKGROUND_FILL_TYPES,
+  BACKGROUND_FITS,
+  DEFAULT_BACKGROUND,
+  DEFAULT_IMAGE_SETTINGS,
+  type Background,
+  type BackgroundFill,
+  type BackgroundImageSettings,
+} from './background';
+import { DEFAULT_CANVAS, MAX_CANVAS_DIMENSION, MIN_CANVAS_DIMENSION, type CanvasSize } from './canvasFormats';
+import {
+  IMAGE_FITS,
+  LAYER_DEFAULTS,
+  SHAPE_KINDS,
+  TEXT_STYLE_DEFAULTS,
+  type ImageLayer,
+  type Layer,
+  type LayerBase,
+  type ShapeLayer,
+  type TextBackground,
+  type TextGradient,
+  type TextLayer,
+  type TextShadow,
+} from './layers';
+import { createPageId, type Page } from './pages';
+import { createReaders, isRecord, type RawObject } from './parsing';
+
+export interface Design {
+  canvas: CanvasSize;
+  // Carousel slides, in order; at least one.
+  pages: Page[];
+  // Drawn on top of every page.
+  masterLayers: Layer[];
+  // Length of each page's animation timeline, in seconds.
+  duration: number;
+}
+
+export interface DesignDocument extends Design {
+  version: number;
+  timestamp: string;
+}
+
+// Bump whenever the saved shape changes and add a matching entry to MIGRATIONS.
+// New optional fields that parse with a default don't need a bump.
+export const DESIGN_SCHEMA_VERSION = 4;
+
+export class DesignParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DesignParseError';
+  }
+}
+
+const { readString, readNumber, readBoolean, readEnum, readNullable } = createReaders(DesignParseError);
+
+// MIGRATIONS[n] upgrades a raw document from version n to version n + 1.
+const MIGRATIONS: Record<number, (doc: RawObject) => RawObject> = {
+  // v1 designs were always laid out on the fixed 4:5 preview.
+  1: doc => ({ ...doc, canvas: { ...DEFAULT_CANVAS } }),
+  // v2 only had text layers, stored under `texts`.
+  2: ({ texts, ...doc }) => ({
+    ...doc,
+    layers: Array.isArray(texts)
+      ? texts.map(text => (isRecord(text) ? { ...text, type: 'text' } : text))
+      : texts,
+  }),
+  // v3 designs were a single page.
+  3: ({ template, background, layers, ...doc }) => ({
+    ...doc,
+    pages: [{ id: createPageId(), template, background, layers }],
+    masterLayers: [],
+  }),
+};
+
+const TEXT_ALIGNS: TextLayer['textAlign'][] = ['left', 'center', 'right'];
+
+const TEXT_DEFAULTS = { ...TEXT_STYLE_DEFAULTS, text: '' };
+
+const parseTextShadow = (raw: RawObject, path: string): TextShadow => ({
+  color: readString(raw, 'color', path),
+  blur: readNumber(raw, 'blur', path, 0),
+  offsetX: readNumber(raw, 'offsetX', path, 0),
+  offsetY: readNumber(raw, 'offsetY', path, 0),
+});
+
+const parseTextBackground = (raw: RawObject, path: string): TextBackground => ({
+  color: readString(raw, 'color', path),
+  padding: readNumber(raw, 'padding', path, 0),
+  radius: readNumber(raw, 'radius', path, 0),
+});
+
+const parseTextGradient = (raw: RawObject, path: string): TextGradient => ({
+  from: readString(raw, 'from', path),
+  to: readString(raw, 'to', path),
+  angle: readNumber(raw, 'angle', path, 90),
+});
+
+// Effects have to fit on the longest timeline; a zero-length one would never show.
+const parseAnimation = (raw: RawObject, path: string): LayerAnimation => {
+  const duration = readNumber(raw, 'duration', path);
+  if (duration <= 0 || duration > MAX_TIMELINE_DURATION) {
+    throw new DesignParseError(`${path}.duration must be more than 0 and at most ${MAX_TIMELINE_DURATION} seconds`);
+  }
+  const delay = readNumber(raw, 'delay', path, 0);
+  if (delay < 0 || delay > MAX_TIMELINE_DURATION) {
+    throw new DesignParseError(`${path}.delay must be between 0 and ${MAX_TIMELINE_DURATION} seconds`);
+  }
+  return {
+    effect: readEnum(raw, 'effect', path, ANIMATION_EFFECTS.map(option => option.effect), 'fade'),
+    direction: readEnum(raw, 'direction', path, SLIDE_DIRECTIONS, 'up'),
+    duration,
+    delay,
+  };
+};
+
+const parseLayerBase = (raw: RawObject, path: string): LayerBase => {
+  if (!isRecord(raw.position)) {
+    throw new DesignParseError(`${path}.position must be an object with x and y`);
+  }
+  if (raw.size !== undefined && !isRecord(raw.size)) {
+    throw new DesignParseError(`${path}.size must be an object with width and height`);
+  }
+  const size = raw.size ?? LAYER_DEFAULTS.size;
+
+  return {
+    id: readString(raw, 'id', path),
+    name: readString(raw, 'name', path, LAYER_DEFAULTS.name),
+    hidden: readBoolean(raw, 'hidden', path, LAYER_DEFAULTS.hidden),
+    locked: readBoolean(raw, 'locked', path, LAYER_DEFAULTS.locked),
+    groupId: readString(raw, 'groupId', path, LAYER_DEFAULTS.groupId),
+    position: {
+      x: readNumber(raw.position, 'x', `${path}.position`),
+      y: readNumber(raw.position, 'y', `${path}.position`),
+    },
+    size: {
+      width: readNumber(size, 'width', `${path}.size`),
+      height: readNumber(size, 'height', `${path}.size`),
+    },
+    rotation: readNumber(raw, 'rotation', path, LAYER_DEFAULTS.rotation),
+    opacity: readNumber(raw, 'opacity', path, LAYER_DEFAULTS.opacity),
+    entrance: readNullable(raw, 'entrance', path, LAYER_DEFAULTS.entrance, parseAnimation),
+    exit: readNullable(raw, 'exit', path, LAYER_DEFAULTS.exit, parseAnimation),
+  };
+};
+
+const parseTextLayer = (raw: RawObject, path: string): TextLayer => ({
+  ...parseLayerBase(raw, path),
+  type: 'text',
+  text: readString(raw, 'text', path, TEXT_DEFAULTS.text),
+  fontFamily: readString(raw, 'fontFamily', path, TEXT_DEFAULTS.fontFamily),
+  fontSize: readString(raw, 'fontSize', path, TEXT_DEFAULTS.fontSize),
+  color: readString(raw, 'color', path, TEXT_DEFAULTS.color),
+  gradient: readNullable(raw, 'gradient', path, TEXT_DEFAULTS.gradient, parseTextGradient),
+  fontWeight: readString(raw, 'fontWeight', path, TEXT_DEFAULTS.fontWeight),
+  textAlign: readEnum(raw, 'textAlign', path, TEXT_ALIGNS, TEXT_DEFAULTS.textAlign),
+  italic: readBoolean(raw, 'italic', path, TEXT_DEFAULTS.italic),
+  underline: readBoolean(raw, 'underline', path, TEXT_DEFAULTS.underline),
+  uppercase: readBoolean(raw, 'uppercase', path, TEXT_DEFAULTS.uppercase),
+  letterSpacing: readNumber(raw, 'letterSpacing', path, TEXT_DEFAULTS.letterSpacing),
+  lineHeight: readNumber(raw, 'lineHeight', path, TEXT_DEFAULTS.lineHeight),
+  wrap: readBoolean(raw, 'wrap', path, TEXT_DEFAULTS.wrap),
+  autoFit: readBoolean(raw, 'autoFit', path, TEXT_DEFAULTS.autoFit),
+  strokeWidth: readNumber(raw, 'strokeWidth', path, TEXT_DEFAULTS.strokeWidth),
+  strokeColor: readString(raw, 'strokeColor', path, TEXT_DEFAULTS.strokeColor),
+  shadow: readNullable(raw, 'shadow', path, TEXT_DEFAULTS.shadow, parseTextShadow),
+  background: readNullable(raw, 'background', path, TEXT_DEFAULTS.background, parseTextBackground),
+});
+
+const parseImageLayer = (raw: RawObject, path: string): ImageLayer => ({
+  ...parseLayerBase(raw, path),
+  type: 'image',
+  src: readString(raw, 'src', path),
+  fit: readEnum(raw, 'fit', path, IMAGE_FITS, 'contain'),
+});
+
+const parseShapeLayer = (raw: RawObject, path: string): ShapeLayer => ({
+  ...parseLayerBase(raw, path),
+  type: 'shape',
+  shape: readEnum(raw, 'shape', path, SHAPE_KINDS, 'rectangle'),
+  fill: readString(raw, 'fill', path, '#2563EB'),
+  stroke: readString(raw, 'stroke', path, '#FFFFFF'),
+  strokeWidth: readNumber(raw, 'strokeWidth', path, 0),
+  cornerRadius: readNumber(raw, 'cornerRadius', path, 0),
+});
+
+const parseLayer = (raw: unknown, path: string): Layer => {
+  if (!isRecord(raw)) {
+    throw new DesignParseError(`${path} must be an object`);
+  }
+  switch (raw.type) {
+    case 'text':
+      return parseTextLayer(raw, path);
+    case 'image':
+      return parseImageLayer(raw, path);
+    case 'shape':
+      return parseShapeLayer(raw, path);
+    default:
+      throw new DesignParseError(`${path}.type must be one of text, image, shape`);
+  }
+};
+
+const parseFill = (raw: RawObject, path: string): BackgroundFill => {
+  const type = readEnum(raw, 'type', path, BACKGROUND_FILL_TYPES.map(option => option.type), 'solid');
+  switch (type) {
+    case 'solid':
+      return { type, color: readString(raw, 'color', path) };
+    case 'linear':
+      return {
+        type,
+        from: readString(raw, 'from', path),
+        to: readString(raw, 'to', path),
+        angle: readNumber(raw, 'angle', path, 180),
+      };
+    case 'radial':
+      return { type, from: readString(raw, 'from', path), to: readString(raw, 'to', path) };
+  }
+};
+
+const parseImageSettings = (raw: RawObject, path: string): BackgroundImageSettings => ({
+  fit: readEnum(raw, 'fit', path, BACKGROUND_FITS, DEFAULT_IMAGE_SETTINGS.fit),
+  zoom: readNumber(raw, 'zoom', path, DEFAULT_IMAGE_SETTINGS.zoom),
+  offsetX: readNumber(raw, 'offsetX', path, DEFAULT_IMAGE_SETTINGS.offsetX),
+  offsetY: readNumber(raw, 'offsetY', path, DEFAULT_IMAGE_SETTINGS.offsetY),
+  brightness: readNumber(raw, 'brightness', path, DEFAULT_IMAGE_SETTINGS.brightness),
+  contrast: readNumber(raw, 'contrast', path, DEFAULT_IMAGE_SETTINGS.contrast),
+  blur: readNumber(raw, 'blur', path, DEFAULT_IMAGE_SETTINGS.blur),
+  overlay: readNumber(raw, 'overlay', path, DEFAULT_IMAGE_SETTINGS.overlay),
+});
+
+const parseBackground = (raw: unknown, path: string): Background => {
+  if (raw === undefined) return DEFAULT_BACKGROUND;
+  if (!isRecord(raw)) {
+    throw new DesignParseError(`${path} must be an object`);
+  }
+  return {
+    fill: readNullable(raw, 'fill', path, DEFAULT_BACKGROUND.fill, parseFill) ?? DEFAULT_BACKGROUND.fill,
+    image: readNullable(raw, 'image', path, DEFAULT_IMAGE_SETTINGS, parseImageSettings) ?? DEFAULT_IMAGE_SETTINGS,
+  };
+};
+
+const parseLayerList = (raw: unknown, path: string): Layer[] => {
+  if (!Array.isArray(raw)) {
+    throw new DesignParseError(`${path} must be a list`);
+  }
+  return raw.map((layer, index) => parseLayer(layer, `${path}[${index}]`));
+};
+
+// Where a page's fields are in the file, so errors name paths the user can find there.
+interface PagePaths {
+  template: string;
+  background: string;
+  layers: string;
+}
+
+// Before v4 a design's only page was spread over the top of the file, and before v3 its layers were `texts`.
+const getLegacyPagePaths = (version: number): PagePaths => ({
+  template: 'template',
+  background: 'background',
+  layers: version <= 2 ? 'texts' : 'layers',
+});
+
+const parsePage = (
+  raw: unknown,
+  path: string,
+  paths: PagePaths = { template: `${path}.template`, background: `${path}.background`, layers: `${path}.layers` }
+): Page => {
+  if (!isRecord(raw)) {
+    throw new DesignParseError(`${path} must be an object`);
+  }
+  if (raw.template !== undefined && raw.template !== null && typeof raw.template !== 'string') {
+    throw new DesignParseError(`${paths.template} must be an image data URL`);
+  }
+  return {
+    id: readString(raw, 'id', path),
+    template: typeof raw.template === 'string' ? raw.template : undefined,
+    background: parseBackground(raw.background, paths.background),
+    layers: parseLayerList(raw.layers, paths.layers),
+  };
+};
+
+const parseCanvas = (raw: unknown): CanvasSize => {
+  if (!isRecord(raw)) {
+    throw new DesignParseError('canvas must be an object with width and height');
+  }
+  const width = readNumber(raw, 'width', 'canvas');
+  const height = readNumber(raw, 'height', 'canvas');
+  for (const [key, value] of [['width', width], ['height', height]] as const) {
+    if (!Number.isInteger(value) || value < MIN_CANVAS_DIMENSION || value > MAX_CANVAS_DIMENSION) {
+      throw new DesignParseError(
+        `canvas.${key} must be a whole number of pixels between ${MIN_CANVAS_DIMENSION} and ${MAX_CANVAS_DIMENSION}`
+      );
+    }
+  }
+  return { width, height };
+};
+
+const parseDuration = (doc: RawObject): number => {
+  const duration = readNumber(doc, 'duration', 'design', DEFAULT_TIMELINE_DURATION);
+  if (duration < MIN_TIMELINE_DURATION || duration > MAX_TIMELINE_DURATION) {
+    throw new DesignParseError(`duration must be between ${MIN_TIMELINE_DURATION} and ${MAX_TIMELINE_DURATION} seconds`);
+  }
+  return duration;
+};
+
+export const serializeDesign = (design: Design): string => {
+  const saved: DesignDocument = {
+    version: DESIGN_SCHEMA_VERSION,
+    canvas: design.canvas,
+    pages: design.pages,
+    masterLayers: design.masterLayers,
+    duration: design.duration,
+    timestamp: new Date().toISOString(),
+  };
+  return JSON.stringify(saved, null, 2);
+};
+
+export const parseDesign = (json: string): Design => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new DesignParseError('The file is not valid JSON');
+  }
+  if (!isRecord(raw)) {
+    throw new DesignParseError('The file does not contain a design');
+  }
+
+  // Files written before the schema was versioned have no version field.
+  let doc = raw;
+  let version = doc.version === undefined ? 1 : doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new DesignParseError('The design has an invalid version');
+  }
+  if (version > DESIGN_SCHEMA_VERSION) {
+    throw new DesignParseError(
+      `This design was saved by a newer version of the editor (v${version}); this editor supports up to v${DESIGN_SCHEMA_VERSION}`
+    );
+  }
+  const fileVersion = version;
+  while (version < DESIGN_SCHEMA_VERSION) {
+    doc = MIGRATIONS[version](doc);
+    version += 1;
+  }
+
+  if (!Array.isArray(doc.pages) || doc.pages.length === 0) {
+    throw new DesignParseError('pages must be a list with at least one page');
+  }
+
+  return {
+    canvas: parseCanvas(doc.canvas),
+    pages: doc.pages.map((page, index) =>
+      parsePage(page, `pages[${index}]`, fileVersion <= 3 ? getLegacyPagePaths(fileVersion) : undefined)
+    ),
+    masterLayers: doc.masterLayers === undefined ? [] : parseLayerList(doc.masterLayers, 'masterLayers'),
+    duration: parseDuration(doc),
+  };
+};
+
+// Layers copied to the clipboard, tagged so arbitrary pasted text is ignored.
+const LAYER_CLIPBOARD_TYPE = 'smm-static/layers';
+
+export const serializeLayers = (layers: Layer[]): string =>
+  JSON.stringify({ type: LAYER_CLIPBOARD_TYPE, version: DESIGN_SCHEMA_VERSION, layers });
+
+// Returns null for clipboard text that isn't copied layers.
+export const parseLayers = (json: string): Layer[] | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || raw.type !== LAYER_CLIPBOARD_TYPE || !Array.isArray(raw.layers)) return null;
+  if (typeof raw.version !== 'number' || raw.version > DESIGN_SCHEMA_VERSION) {
+    throw new DesignParseError('These layers were copied from a newer version of the editor');
+  }
+  return raw.layers.map((layer, index) => parseLayer(layer, `layers[${index}]`));
+};
@@ -0,0 +1,95 @@
+import { parseDesign, serializeDesign, type Design } from './design';
+import {
+  DESIGN_DOCUMENTS,
+  DESIGN_SUMMARIES,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './db';
+
+export interface SavedDesignSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnail?: string;
+}
+
+interface SavedDocument {
+  id: string;
+  json: string;
+}
+
+const CURRENT_DESIGN_KEY = 'smm-static:current-design';
+
+export const createDesignId = () => crypto.randomUUID();
+
+export const listDesigns = async (): Promise<SavedDesignSummary[]> => {
+  const db = await openDatabase();
+  const summaries = await requestToPromise<SavedDesignSummary[]>(
+    db.transaction(DESIGN_SUMMARIES).objectStore(DESIGN_SUMMARIES).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getDesignSummary = async (id: string): Promise<SavedDesignSummary | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise<SavedDesignSummary | undefined>(
+    db.transaction(DESIGN_SUMMARIES).objectStore(DESIGN_SUMMARIES).get(id)
+  );
+};
+
+export const loadDesign = async (id: string): Promise<Design | undefined> => {
+  const db = await openDatabase();
+  const saved = await requestToPromise<SavedDocument | undefined>(
+    db.transaction(DESIGN_DOCUMENTS).objectStore(DESIGN_DOCUMENTS).get(id)
+  );
+  // Stored as the same JSON as design.json, so older saves go through the schema migrations.
+  return saved && parseDesign(saved.json);
+};
+
+export const saveDesign = async (
+  summary: Omit<SavedDesignSummary, 'updatedAt'>,
+  design: Design
+): Promise<SavedDesignSummary> => {
+  const db = await openDatabase();
+  const saved: SavedDesignSummary = { ...summary, updatedAt: Date.now() };
+  const transaction = db.transaction([DESIGN_SUMMARIES, DESIGN_DOCUMENTS], 'readwrite');
+  transaction.objectStore(DESIGN_SUMMARIES).put(saved);
+  transaction.objectStore(DESIGN_DOCUMENTS).put({ id: summary.id, json: serializeDesign(design) } satisfies SavedDocument);
+  await transactionDone(transaction);
+  return saved;
+};
+
+export const renameDesign = async (id: string, name: string): Promise<void> => {
+  const summary = await getDesignSummary(id);
+  if (!summary) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(DESIGN_SUMMARIES, 'readwrite');
+  transaction.objectStore(DESIGN_SUMMARIES).put({ ...summary, name, updatedAt: Date.now() });
+  await transactionDone(transaction);
+};
+
+export const duplicateDesign = async (id: string): Promise<SavedDesignSummary | undefined> => {
+  const [summary, design] = await Promise.all([getDesignSummary(id), loadDesign(id)]);
+  if (!summary || !design) return undefined;
+  return saveDesign({ id: createDesignId(), name: `${summary.name} copy`, thumbnail: summary.thumbnail }, design);
+};
+
+export const deleteDesign = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([DESIGN_SUMMARIES, DESIGN_DOCUMENTS], 'readwrite');
+  transaction.objectStore(DESIGN_SUMMARIES).delete(id);
+  transaction.objectStore(DESIGN_DOCUMENTS).delete(id);
+  await transactionDone(transaction);
+};
+
+// The design that was open last, so a refresh picks up where the user left off.
+export const getCurrentDesignId = (): string | null => localStorage.getItem(CURRENT_DESIGN_KEY);
+
+export const setCurrentDesignId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(CURRENT_DESIGN_KEY, id);
+  } else {
+    localStorage.removeItem(CURRENT_DESIGN_KEY);
+  }
+};
@@ -0,0 +1,20 @@
+export const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  URL.revokeObjectURL(url);
+};
+
+// Strips characters that aren't allowed in file names on common platforms; empty if nothing usable is left.
+export const toSafeFileName = (name: string): string =>
+  name
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
@@ -0,0 +1,305 @@
+import { toSvg } from 'html-to-image';
+import JSZip from 'jszip';
+import { ANIMATION_FPS } from './animation';
+import type { AnimationSettings } from './animationEncoder';
+import type { CanvasSize } from './canvasFormats';
+import { getFontFaceSources, getFontStack, waitForFonts } from './fonts';
+import {
+  getSceneImageSources,
+  getSceneTextLayers,
+  renderScene,
+  type RenderOptions,
+  type RenderResources,
+  type RenderScene,
+} from './renderer';
+import type { RenderJob, RenderReply, RenderTask } from './renderWorker';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg' | 'pdf' | 'gif' | 'webm';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  // Lossy formats get a quality slider.
+  lossy: boolean;
+  // Vector output ignores the scale factor.
+  vector: boolean;
+  // Animated formats play the page's timeline, and are always exported at 1x.
+  animated: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'png', label: 'PNG', extension: 'png', lossy: false, vector: false, animated: false },
+  { id: 'jpeg', label: 'JPEG', extension: 'jpg', lossy: true, vector: false, animated: false },
+  { id: 'webp', label: 'WebP', extension: 'webp', lossy: true, vector: false, animated: false },
+  { id: 'svg', label: 'SVG', extension: 'svg', lossy: false, vector: true, animated: false },
+  { id: 'pdf', label: 'PDF', extension: 'pdf', lossy: false, vector: false, animated: false },
+  { id: 'gif', label: 'GIF', extension: 'gif', lossy: false, vector: false, animated: true },
+  { id: 'webm', label: 'WebM', extension: 'webm', lossy: false, vector: false, animated: true },
+];
+
+export const EXPORT_SCALES = [1, 2, 3];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0-1, only used by lossy formats.
+  quality: number;
+  scale: number;
+  // Leaves the background see-through instead of filling it; only honoured for PNG.
+  transparent: boolean;
+  // Multi-page designs export every page, as one PDF or a ZIP of numbered images.
+  allPages: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  scale: 1,
+  transparent: false,
+  allPages: true,
+};
+
+export const getExportFormat = (format: ExportFormat): ExportFormatInfo =>
+  EXPORT_FORMATS.find(info => info.id === format) ?? EXPORT_FORMATS[0];
+
+export interface CaptureOptions {
+  scale?: number;
+  // Leaves out the background fill so the layers sit on a see-through canvas.
+  transparent?: boolean;
+}
+
+// html-to-image options that render the stage at the canvas's real resolution,
+// whatever the on-screen preview scale, and leave out editor-only overlays.
+export const getCaptureOptions = (canvas: CanvasSize, { scale = 1, transparent = false }: CaptureOptions = {}) => ({
+  width: canvas.width,
+  height: canvas.height,
+  pixelRatio: scale,
+  style: transparent ? { transform: 'none', backgroundColor: 'transparent' } : { transform: 'none' },
+  filter: (node: HTMLElement) =>
+    !(node instanceof HTMLElement && (node.dataset.editorOnly || (transparent && node.dataset.backgroundFill))),
+});
+
+// Browsers fall back to PNG for types they can't encode rather than failing.
+const checkBlobType = (blob: Blob | null, type: string): Blob => {
+  if (!blob || blob.type !== type) throw new Error(`This browser can't export ${type} images`);
+  return blob;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      try {
+        resolve(checkBlobType(blob, type));
+      } catch (err) {
+        reject(err);
+      }
+    }, type, quality);
+  });
+
+// Decoded on the page, which can read any image the editor shows, including SVGs workers can't decode.
+const loadImageBitmap = async (src: string): Promise<[string, ImageBitmap] | null> => {
+  const image = new Image();
+  image.src = src;
+  try {
+    await image.decode();
+    return [src, await createImageBitmap(image)];
+  } catch (err) {
+    console.error('Error loading image for export:', err);
+    return null;
+  }
+};
+
+export interface RasterOptions extends RenderOptions {
+  type: string;
+  quality?: number;
+}
+
+let worker: Worker | null = null;
+let canUseWorker = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+let nextJobId = 0;
+const pendingJobs = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+
+class WorkerUnsupportedError extends Error {}
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  const created = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  created.onmessage = ({ data: reply }: MessageEvent<RenderReply>) => {
+    const job = pendingJobs.get(reply.id);
+    pendingJobs.delete(reply.id);
+    if (!job) return;
+    if ('blob' in reply) job.resolve(reply.blob);
+    else job.reject(reply.unsupported ? new WorkerUnsupportedError(reply.error) : new Error(reply.error));
+  };
+  // A worker that fails to start at all is given up on, and rendering moves to the page.
+  created.onerror = (e) => {
+    console.error('Render worker failed:', e.message);
+    for (const job of pendingJobs.values()) job.reject(new WorkerUnsupportedError(e.message));
+    pendingJobs.clear();
+    created.terminate();
+    worker = null;
+  };
+  worker = created;
+  return created;
+};
+
+const renderInWorker = (job: Omit<RenderJob, 'id'>): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const id = nextJobId++;
+    pendingJobs.set(id, { resolve, reject });
+    getWorker().postMessage({ ...job, id } satisfies RenderJob);
+  });
+
+// Loads the scene's fonts into the page and decodes its images. Release them once drawing is done.
+export const loadRenderResources = async (scene: RenderScene): Promise<RenderResources> => {
+  const textLayers = getSceneTextLayers(scene);
+  await waitForFonts(textLayers);
+  const families = [...new Set(textLayers.map(layer => layer.fontFamily))];
+  const images = await Promise.all(getSceneImageSources(scene).map(loadImageBitmap));
+  return {
+    images: new Map(images.filter(entry => entry !== null)),
+    fontStacks: Object.fromEntries(families.map(family => [family, getFontStack(family)])),
+  };
+};
+
+export const releaseRenderResources = ({ images }: RenderResources) => {
+  for (const image of images.values()) image.close();
+};
+
+// Runs a task in the worker where the browser supports one, and with `renderOnPage` otherwise.
+const runRenderTask = async (
+  scene: RenderScene,
+  task: RenderTask,
+  renderOnPage: (resources: RenderResources) => Promise<Blob>
+): Promise<Blob> => {
+  const resources = await loadRenderResources(scene);
+  try {
+    if (canUseWorker) {
+      try {
+        return await renderInWorker({
+          scene,
+          task,
+          images: [...resources.images],
+          fontStacks: resources.fontStacks,
+          fontFaces: getFontFaceSources(Object.keys(resources.fontStacks)),
+        });
+      } catch (err) {
+        if (!(err instanceof WorkerUnsupportedError)) throw err;
+        canUseWorker = false;
+      }
+    }
+    return await renderOnPage(resources);
+  } finally {
+    releaseRenderResources(resources);
+  }
+};
+
+const createPageCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Draws a scene at its exact pixel size with the headless renderer.
+export const rasterizeScene = async (scene: RenderScene, { type, quality, ...options }: RasterOptions): Promise<Blob> =>
+  checkBlobType(await runRenderTask(scene, { kind: 'image', options, type, quality }, resources => {
+    const canvas = createPageCanvas(Math.round(scene.canvas.width * options.scale), Math.round(scene.canvas.height * options.scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas to render on');
+    renderScene(ctx, scene, resources, options);
+    return canvasToBlob(canvas, type, quality);
+  }), type);
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// A small JPEG of the scene for the design library, as a data URL.
+export const renderThumbnail = async (scene: RenderScene, width: number): Promise<string> =>
+  blobToDataUrl(await rasterizeScene(scene, { type: 'image/jpeg', quality: 0.8, scale: width / scene.canvas.width, transparent: false }));
+
+// Plays the scene's animation timeline into a GIF or WebM file.
+export const renderAnimation = (scene: RenderScene, settings: AnimationSettings): Promise<Blob> =>
+  runRenderTask(scene, { kind: 'animation', settings }, async resources => {
+    // The encoders are only loaded on the page when the worker can't be used.
+    const { encodeAnimation } = await import('./animationEncoder');
+    return encodeAnimation(createPageCanvas(scene.canvas.width, scene.canvas.height), scene, resources, settings);
+  });
+
+const rasterizeToPng = async (scene: RenderScene, scale: number) =>
+  new Uint8Array(await (await rasterizeScene(scene, { type: 'image/png', scale, transparent: false })).arrayBuffer());
+
+// Loaded on demand, it's larger than the rest of the editor put together.
+const createPdf = async (canvas: CanvasSize) => {
+  const { jsPDF } = await import('jspdf');
+  // Pages exactly the size of the canvas; the scale only raises the embedded images' resolution.
+  return new jsPDF({
+    orientation: canvas.width > canvas.height ? 'landscape' : 'portrait',
+    unit: 'px',
+    format: [canvas.width, canvas.height],
+    hotfixes: ['px_scaling'],
+    compress: true,
+  });
+};
+
+// Raster formats are drawn by the headless renderer. SVG is vector output, so it's still captured
+// from the stage node, which must be showing the scene without selection outlines.
+export const renderDesign = async (node: HTMLElement, scene: RenderScene, options: ExportOptions): Promise<Blob> => {
+  const { canvas } = scene;
+  const transparent = !scene.template && options.format === 'png' && options.transparent;
+  switch (options.format) {
+    case 'svg':
+      return (await fetch(await toSvg(node, getCaptureOptions(canvas)))).blob();
+    case 'png':
+      return rasterizeScene(scene, { type: 'image/png', scale: options.scale, transparent });
+    case 'jpeg':
+      return rasterizeScene(scene, { type: 'image/jpeg', quality: options.quality, scale: options.scale, transparent: false });
+    case 'webp':
+      return rasterizeScene(scene, { type: 'image/webp', quality: options.quality, scale: options.scale, transparent: false });
+    case 'pdf': {
+      const pdf = await createPdf(canvas);
+      pdf.addImage(await rasterizeToPng(scene, options.scale), 'PNG', 0, 0, canvas.width, canvas.height);
+      return pdf.output('blob');
+    }
+    case 'gif':
+    case 'webm':
+      return renderAnimation(scene, { format: options.format, fps: ANIMATION_FPS[options.format] });
+  }
+};
+
+// Zero-padded so the files sort in slide order.
+export const getPageFileName = (baseName: string, index: number, pageCount: number, extension: string): string =>
+  `${baseName}-${String(index + 1).padStart(String(pageCount).length, '0')}.${extension}`;
+
+// Renders every page of a carousel. PDFs get one page per slide; other formats become numbered files
+// in a ZIP. `showPage` puts a page on the stage, and is only needed for SVG.
+export const renderPages = async (
+  node: HTMLElement,
+  scenes: RenderScene[],
+  options: ExportOptions,
+  showPage: (index: number) => Promise<void>,
+  baseName: string
+): Promise<Blob> => {
+  if (options.format === 'pdf') {
+    const { canvas } = scenes[0];
+    const pdf = await createPdf(canvas);
+    for (const [index, scene] of scenes.entries()) {
+      if (index > 0) pdf.addPage([canvas.width, canvas.height], canvas.width > canvas.height ? 'landscape' : 'portrait');
+      pdf.addImage(await rasterizeToPng(scene, options.scale), 'PNG', 0, 0, canvas.width, canvas.height);
+    }
+    return pdf.output('blob');
+  }
+
+  const zip = new JSZip();
+  const { extension } = getExportFormat(options.format);
+  for (const [index, scene] of scenes.entries()) {
+    if (options.format === 'svg') await showPage(index);
+    zip.file(getPageFileName(baseName, index, scenes.length, extension), await renderDesign(node, scene, options));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,25 @@
+import type { Rgba } from './colors';
+import { loadRenderResources, releaseRenderResources } from './exportImage';
+import type { Point } from './geometry';
+import { renderScene, type RenderScene } from './renderer';
+
+// The color of the page's background at a point in canvas pixels: the template image as it's
+// framed and toned, over the fill. Layers are left out so they can't be picked up instead.
+export const sampleBackgroundColor = async (scene: RenderScene, point: Point): Promise<Rgba | null> => {
+  const background = { ...scene, layers: [] };
+  const resources = await loadRenderResources(background);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    // Only the one pixel is drawn, by shifting it to the canvas's origin.
+    ctx.translate(-Math.floor(point.x), -Math.floor(point.y));
+    renderScene(ctx, background, resources, { scale: 1, transparent: false });
+    const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+    return { r, g, b, a: 1 };
+  } finally {
+    releaseRenderResources(resources);
+  }
+};
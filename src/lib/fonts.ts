@@ -0,0 +1,295 @@
+import type { Layer } from './layers';
+
+export type FontCategory = 'display' | 'sans-serif' | 'serif' | 'monospace' | 'handwriting' | 'system' | 'custom';
+
+export interface FontDefinition {
+  family: string;
+  category: FontCategory;
+  // Name the self-hosted stylesheet registers, when it differs from the family shown to users.
+  cssFamily?: string;
+  // Imports the font's @font-face rules. System and uploaded fonts don't need one.
+  load?: () => Promise<unknown>;
+}
+
+export const FONT_CATEGORIES: { category: FontCategory; label: string }[] = [
+  { category: 'custom', label: 'Uploaded' },
+  { category: 'display', label: 'Display & Decorative' },
+  { category: 'sans-serif', label: 'Sans-Serif' },
+  { category: 'serif', label: 'Serif' },
+  { category: 'monospace', label: 'Monospace' },
+  { category: 'handwriting', label: 'Handwriting' },
+  { category: 'system', label: 'System' },
+];
+
+const GENERIC_FAMILIES: Record<FontCategory, string> = {
+  'display': 'sans-serif',
+  'sans-serif': 'sans-serif',
+  'serif': 'serif',
+  'monospace': 'monospace',
+  'handwriting': 'cursive',
+  'system': 'sans-serif',
+  'custom': 'sans-serif',
+};
+
+// Fontsource names variable fonts "<Family> Variable"; designs keep the plain family name.
+const variable = (family: string, category: FontCategory, load: () => Promise<unknown>): FontDefinition => ({
+  family,
+  category,
+  cssFamily: `${family} Variable`,
+  load,
+});
+
+// Self-hosted through Fontsource so exports don't depend on a third-party stylesheet. Variable
+// fonts cover every weight in one file; static ones import each weight offered in FONT_WEIGHTS.
+export const BUNDLED_FONTS: FontDefinition[] = [
+  { family: 'Abril Fatface', category: 'display', load: () => import('@fontsource/abril-fatface') },
+  {
+    family: 'Amatic SC',
+    category: 'display',
+    load: () => Promise.all([import('@fontsource/amatic-sc/400.css'), import('@fontsource/amatic-sc/700.css')]),
+  },
+  { family: 'Architects Daughter', category: 'display', load: () => import('@fontsource/architects-daughter') },
+  { family: 'Bebas Neue', category: 'display', load: () => import('@fontsource/bebas-neue') },
+  { family: 'Cookie', category: 'display', load: () => import('@fontsource/cookie') },
+  variable('Dancing Script', 'display', () => import('@fontsource-variable/dancing-script')),
+  { family: 'Fjalla One', category: 'display', load: () => import('@fontsource/fjalla-one') },
+  { family: 'Great Vibes', category: 'display', load: () => import('@fontsource/great-vibes') },
+  { family: 'Indie Flower', category: 'display', load: () => import('@fontsource/indie-flower') },
+  { family: 'Lobster', category: 'display', load: () => import('@fontsource/lobster') },
+  {
+    family: 'Lobster Two',
+    category: 'display',
+    load: () => Promise.all([import('@fontsource/lobster-two/400.css'), import('@fontsource/lobster-two/700.css')]),
+  },
+  variable('Oswald', 'display', () => import('@fontsource-variable/oswald')),
+  { family: 'Pacifico', category: 'display', load: () => import('@fontsource/pacifico') },
+  { family: 'Permanent Marker', category: 'display', load: () => import('@fontsource/permanent-marker') },
+  { family: 'Sacramento', category: 'display', load: () => import('@fontsource/sacramento') },
+
+  variable('Montserrat', 'sans-serif', () => import('@fontsource-variable/montserrat')),
+  {
+    family: 'Poppins',
+    category: 'sans-serif',
+    load: () => Promise.all([
+      import('@fontsource/poppins/300.css'),
+      import('@fontsource/poppins/400.css'),
+      import('@fontsource/poppins/500.css'),
+      import('@fontsource/poppins/600.css'),
+      import('@fontsource/poppins/700.css'),
+      import('@fontsource/poppins/800.css'),
+    ]),
+  },
+  variable('Roboto', 'sans-serif', () => import('@fontsource-variable/roboto')),
+  variable('Roboto Condensed', 'sans-serif', () => import('@fontsource-variable/roboto-condensed')),
+  variable('Open Sans', 'sans-serif', () => import('@fontsource-variable/open-sans')),
+  {
+    family: 'Lato',
+    category: 'sans-serif',
+    load: () => Promise.all([
+      import('@fontsource/lato/300.css'),
+      import('@fontsource/lato/400.css'),
+      import('@fontsource/lato/700.css'),
+    ]),
+  },
+  variable('Nunito', 'sans-serif', () => import('@fontsource-variable/nunito')),
+  variable('Raleway', 'sans-serif', () => import('@fontsource-variable/raleway')),
+  variable('Source Sans 3', 'sans-serif', () => import('@fontsource-variable/source-sans-3')),
+  variable('Work Sans', 'sans-serif', () => import('@fontsource-variable/work-sans')),
+  variable('Noto Sans', 'sans-serif', () => import('@fontsource-variable/noto-sans')),
+  variable('IBM Plex Sans', 'sans-serif', () => import('@fontsource-variable/ibm-plex-sans')),
+  {
+    family: 'PT Sans',
+    category: 'sans-serif',
+    load: () => Promise.all([import('@fontsource/pt-sans/400.css'), import('@fontsource/pt-sans/700.css')]),
+  },
+  {
+    family: 'Oxygen',
+    category: 'sans-serif',
+    load: () => Promise.all([
+      import('@fontsource/oxygen/300.css'),
+      import('@fontsource/oxygen/400.css'),
+      import('@fontsource/oxygen/700.css'),
+    ]),
+  },
+  {
+    family: 'Ubuntu',
+    category: 'sans-serif',
+    load: () => Promise.all([
+      import('@fontsource/ubuntu/300.css'),
+      import('@fontsource/ubuntu/400.css'),
+      import('@fontsource/ubuntu/500.css'),
+      import('@fontsource/ubuntu/700.css'),
+    ]),
+  },
+  variable('Mulish', 'sans-serif', () => import('@fontsource-variable/mulish')),
+  variable('Josefin Sans', 'sans-serif', () => import('@fontsource-variable/josefin-sans')),
+  variable('Comfortaa', 'sans-serif', () => import('@fontsource-variable/comfortaa')),
+  variable('Quicksand', 'sans-serif', () => import('@fontsource-variable/quicksand')),
+  variable('Exo 2', 'sans-serif', () => import('@fontsource-variable/exo-2')),
+  variable('Rubik', 'sans-serif', () => import('@fontsource-variable/rubik')),
+
+  variable('Playfair Display', 'serif', () => import('@fontsource-variable/playfair-display')),
+  variable('Lora', 'serif', () => import('@fontsource-variable/lora')),
+  variable('Merriweather', 'serif', () => import('@fontsource-variable/merriweather')),
+  {
+    family: 'PT Serif',
+    category: 'serif',
+    load: () => Promise.all([import('@fontsource/pt-serif/400.css'), import('@fontsource/pt-serif/700.css')]),
+  },
+  {
+    family: 'Crimson Text',
+    category: 'serif',
+    load: () => Promise.all([
+      import('@fontsource/crimson-text/400.css'),
+      import('@fontsource/crimson-text/600.css'),
+      import('@fontsource/crimson-text/700.css'),
+    ]),
+  },
+  variable('Bitter', 'serif', () => import('@fontsource-variable/bitter')),
+  {
+    family: 'Spectral',
+    category: 'serif',
+    load: () => Promise.all([
+      import('@fontsource/spectral/300.css'),
+      import('@fontsource/spectral/400.css'),
+      import('@fontsource/spectral/500.css'),
+      import('@fontsource/spectral/600.css'),
+      import('@fontsource/spectral/700.css'),
+      import('@fontsource/spectral/800.css'),
+    ]),
+  },
+  variable('Roboto Slab', 'serif', () => import('@fontsource-variable/roboto-slab')),
+
+  variable('Roboto Mono', 'monospace', () => import('@fontsource-variable/roboto-mono')),
+  variable('Source Code Pro', 'monospace', () => import('@fontsource-variable/source-code-pro')),
+  {
+    family: 'Space Mono',
+    category: 'monospace',
+    load: () => Promise.all([import('@fontsource/space-mono/400.css'), import('@fontsource/space-mono/700.css')]),
+  },
+
+  variable('Caveat', 'handwriting', () => import('@fontsource-variable/caveat')),
+  {
+    family: 'Kalam',
+    category: 'handwriting',
+    load: () => Promise.all([
+      import('@fontsource/kalam/300.css'),
+      import('@fontsource/kalam/400.css'),
+      import('@fontsource/kalam/700.css'),
+    ]),
+  },
+  { family: 'Handlee', category: 'handwriting', load: () => import('@fontsource/handlee') },
+  { family: 'Courgette', category: 'handwriting', load: () => import('@fontsource/courgette') },
+
+  { family: 'Arial', category: 'system' },
+  { family: 'Times New Roman', category: 'system' },
+  { family: 'Georgia', category: 'system' },
+  { family: 'Verdana', category: 'system' },
+  { family: 'Helvetica', category: 'system' },
+];
+
+export const FONT_FAMILIES = BUNDLED_FONTS.map(font => font.family);
+
+export const FONT_SIZES = ['18px', '24px', '32px', '40px', '48px', '56px', '64px', '72px', '96px', '120px', '144px'];
+export const FONT_WEIGHTS = ['300', 'normal', '500', '600', 'bold', '800'];
+
+const registry = new Map(BUNDLED_FONTS.map(font => [font.family, font]));
+const loading = new Map<string, Promise<void>>();
+
+export const findFont = (family: string): FontDefinition | undefined => registry.get(family);
+
+// Uploaded fonts join the registry at runtime; bundled fonts can't be replaced.
+export const registerFont = (font: FontDefinition) => {
+  const existing = registry.get(font.family);
+  if (existing && existing.category !== 'custom') return;
+  registry.set(font.family, font);
+};
+
+export const unregisterFont = (family: string) => {
+  if (registry.get(family)?.category === 'custom') {
+    registry.delete(family);
+    loading.delete(family);
+  }
+};
+
+// CSS font-family value for a design's font, with a generic fallback for anything not yet loaded.
+export const getFontStack = (family: string): string => {
+  const font = findFont(family);
+  if (!font) return `"${family}"`;
+  const names = font.cssFamily ? [font.cssFamily, font.family] : [font.family];
+  return [...names.map(name => `"${name}"`), GENERIC_FAMILIES[font.category]].join(', ');
+};
+
+// Adds the font's @font-face rules to the page once; the browser then fetches files as text needs them.
+export const loadFont = (family: string): Promise<void> => {
+  let pending = loading.get(family);
+  if (!pending) {
+    const font = findFont(family);
+    pending = Promise.resolve(font?.load?.())
+      .then(() => undefined)
+      .catch(err => {
+        loading.delete(family);
+        console.error(`Error loading font ${family}:`, err);
+      });
+    loading.set(family, pending);
+  }
+  return pending;
+};
+
+// Resolves once every font the visible text layers use has finished downloading, so a capture
+// never falls back to a system font mid-load.
+export const waitForFonts = async (layers: Layer[]) => {
+  const textLayers = layers.flatMap(layer => (layer.type === 'text' && !layer.hidden ? [layer] : []));
+  await Promise.all(textLayers.map(layer => loadFont(layer.fontFamily)));
+  await Promise.all(textLayers.map(layer => {
+    const font = `${layer.italic ? 'italic ' : ''}${layer.fontWeight} ${layer.fontSize} ${getFontStack(layer.fontFamily)}`;
+    return document.fonts.load(font, layer.text || undefined).catch(() => []);
+  }));
+  await document.fonts.ready;
+};
+
+// An @font-face rule from the page's stylesheets, in a form that can be declared again elsewhere,
+// such as in a worker's font set.
+export interface FontFaceSource {
+  family: string;
+  source: string;
+  descriptors: FontFaceDescriptors;
+}
+
+// The @font-face rules behind the given families, with relative file URLs made absolute.
+export const getFontFaceSources = (families: string[]): FontFaceSource[] => {
+  const names = new Set(families.flatMap(family => {
+    const cssFamily = findFont(family)?.cssFamily;
+    return cssFamily ? [cssFamily, family] : [family];
+  }));
+  const sources: FontFaceSource[] = [];
+  for (const sheet of document.styleSheets) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Stylesheets from other origins can't be read.
+      continue;
+    }
+    const base = sheet.href ?? document.baseURI;
+    for (const rule of rules) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const { style } = rule;
+      const family = style.getPropertyValue('font-family').trim().replace(/^(["'])(.*)\1$/, '$2');
+      if (!names.has(family)) continue;
+      sources.push({
+        family,
+        source: style.getPropertyValue('src').replace(
+          /url\((["']?)(.*?)\1\)/g,
+          (_match, _quote, url: string) => `url("${new URL(url, base).href}")`
+        ),
+        descriptors: {
+          style: style.getPropertyValue('font-style') || 'normal',
+          weight: style.getPropertyValue('font-weight') || 'normal',
+          unicodeRange: style.getPropertyValue('unicode-range') || 'U+0-10FFFF',
+        },
+      });
+    }
+  }
+  return sources;
+};
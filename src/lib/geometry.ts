@@ -0,0 +1,184 @@
+import type { CanvasSize } from './canvasFormats';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Axis-aligned box in canvas pixels.
+export interface Bounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface Guide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+export interface SnapLines {
+  vertical: number[];
+  horizontal: number[];
+}
+
+export type Corner = { x: 1 | -1; y: 1 | -1 };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const rotatePoint = ({ x, y }: Point, degrees: number): Point => {
+  const angle = toRadians(degrees);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+// The axis-aligned box that encloses a rotated box centered on `center`.
+export const getRotatedBounds = (center: Point, size: Size, rotation: number): Bounds => {
+  const angle = toRadians(rotation);
+  const width = Math.abs(size.width * Math.cos(angle)) + Math.abs(size.height * Math.sin(angle));
+  const height = Math.abs(size.width * Math.sin(angle)) + Math.abs(size.height * Math.cos(angle));
+  return { left: center.x - width / 2, top: center.y - height / 2, width, height };
+};
+
+export const collectSnapLines = (canvas: CanvasSize, others: Bounds[]): SnapLines => {
+  const vertical = [0, canvas.width / 2, canvas.width];
+  const horizontal = [0, canvas.height / 2, canvas.height];
+  for (const box of others) {
+    vertical.push(box.left, box.left + box.width / 2, box.left + box.width);
+    horizontal.push(box.top, box.top + box.height / 2, box.top + box.height);
+  }
+  return { vertical, horizontal };
+};
+
+const snapAxis = (start: number, length: number, lines: number[], threshold: number) => {
+  const edges = [start, start + length / 2, start + length];
+  let best: number | null = null;
+  for (const line of lines) {
+    for (const edge of edges) {
+      const delta = line - edge;
+      if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) {
+        best = delta;
+      }
+    }
+  }
+  const offset = best ?? 0;
+  // Every line the snapped box now touches gets a guide, not just the one it snapped to.
+  const matched = best === null
+    ? []
+    : lines.filter(line => edges.some(edge => Math.abs(edge + offset - line) < 0.5));
+  return { offset, matched: [...new Set(matched)] };
+};
+
+// Nudges a box onto nearby snap lines and reports the guides to draw.
+export const snapBounds = (bounds: Bounds, lines: SnapLines, threshold: number) => {
+  const x = snapAxis(bounds.left, bounds.width, lines.vertical, threshold);
+  const y = snapAxis(bounds.top, bounds.height, lines.horizontal, threshold);
+  const guides: Guide[] = [
+    ...x.matched.map(position => ({ orientation: 'vertical' as const, position })),
+    ...y.matched.map(position => ({ orientation: 'horizontal' as const, position })),
+  ];
+  return { dx: x.offset, dy: y.offset, guides };
+};
+
+// Snaps an angle to the nearest multiple of `step` when it is within `threshold` degrees of it.
+export const snapAngle = (degrees: number, step = 45, threshold = 4): number => {
+  const nearest = Math.round(degrees / step) * step;
+  const snapped = Math.abs(nearest - degrees) <= threshold ? nearest : degrees;
+  // Keep angles in (-180, 180] so the rotation slider can show them.
+  const normalized = ((snapped + 180) % 360 + 360) % 360 - 180;
+  return normalized === -180 ? 180 : normalized;
+};
+
+export const angleFromCenter = (center: Point, pointer: Point): number =>
+  // Measured from straight up, which is where the rotation handle sits.
+  (Math.atan2(pointer.y - center.y, pointer.x - center.x) * 180) / Math.PI + 90;
+
+// Resizes a rotated box by dragging one corner while the opposite corner stays put. With `lockHeight`
+// only the width follows the pointer, for boxes whose height comes from their content.
+export const resizeFromCorner = (
+  anchor: Point,
+  pointer: Point,
+  corner: Corner,
+  rotation: number,
+  startSize: Size,
+  keepAspectRatio: boolean,
+  minSize = 8,
+  lockHeight = false
+): { center: Point; size: Size } => {
+  const local = rotatePoint({ x: pointer.x - anchor.x, y: pointer.y - anchor.y }, -rotation);
+  let width = Math.max(minSize, corner.x * local.x);
+  let height = lockHeight ? startSize.height : Math.max(minSize, corner.y * local.y);
+
+  if (keepAspectRatio && !lockHeight) {
+    const scale = Math.max(width / startSize.width, height / startSize.height);
+    width = Math.max(minSize, startSize.width * scale);
+    height = Math.max(minSize, startSize.height * scale);
+  }
+
+  const offset = rotatePoint({ x: (corner.x * width) / 2, y: (corner.y * height) / 2 }, rotation);
+  return { center: { x: anchor.x + offset.x, y: anchor.y + offset.y }, size: { width, height } };
+};
+
+// The corner opposite `corner` of a rotated box, in canvas pixels.
+export const getAnchorCorner = (center: Point, size: Size, rotation: number, corner: Corner): Point => {
+  const offset = rotatePoint({ x: (-corner.x * size.width) / 2, y: (-corner.y * size.height) / 2 }, rotation);
+  return { x: center.x + offset.x, y: center.y + offset.y };
+};
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export const getUnionBounds = (boxes: Bounds[]): Bounds => {
+  const left = Math.min(...boxes.map(box => box.left));
+  const top = Math.min(...boxes.map(box => box.top));
+  const right = Math.max(...boxes.map(box => box.left + box.width));
+  const bottom = Math.max(...boxes.map(box => box.top + box.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+export const boundsIntersect = (a: Bounds, b: Bounds): boolean =>
+  a.left < b.left + b.width && b.left < a.left + a.width && a.top < b.top + b.height && b.top < a.top + a.height;
+
+// How far each box moves to line its edge or center up with the same edge or center of `target`.
+export const alignOffsets = (boxes: Bounds[], alignment: Alignment, target: Bounds): Point[] =>
+  boxes.map(box => {
+    switch (alignment) {
+      case 'left':
+        return { x: target.left - box.left, y: 0 };
+      case 'center':
+        return { x: target.left + target.width / 2 - (box.left + box.width / 2), y: 0 };
+      case 'right':
+        return { x: target.left + target.width - (box.left + box.width), y: 0 };
+      case 'top':
+        return { x: 0, y: target.top - box.top };
+      case 'middle':
+        return { x: 0, y: target.top + target.height / 2 - (box.top + box.height / 2) };
+      case 'bottom':
+        return { x: 0, y: target.top + target.height - (box.top + box.height) };
+    }
+  });
+
+// How far each box moves so the gaps between neighbours are equal. The outermost boxes stay put.
+export const distributeOffsets = (boxes: Bounds[], axis: 'horizontal' | 'vertical'): Point[] => {
+  const start = (box: Bounds) => (axis === 'horizontal' ? box.left : box.top);
+  const length = (box: Bounds) => (axis === 'horizontal' ? box.width : box.height);
+  const order = boxes.map((_, index) => index).sort((a, b) => start(boxes[a]) - start(boxes[b]));
+  const first = boxes[order[0]];
+  const span = Math.max(...boxes.map(box => start(box) + length(box))) - start(first);
+  const gap = (span - boxes.reduce((total, box) => total + length(box), 0)) / Math.max(1, boxes.length - 1);
+
+  const offsets: Point[] = boxes.map(() => ({ x: 0, y: 0 }));
+  let cursor = start(first);
+  for (const index of order) {
+    const delta = cursor - start(boxes[index]);
+    offsets[index] = axis === 'horizontal' ? { x: delta, y: 0 } : { x: 0, y: delta };
+    cursor += length(boxes[index]) + gap;
+  }
+  return offsets;
+};
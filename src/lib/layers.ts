@@ -0,0 +1,272 @@
+import type { LayerAnimation } from './animation';
+
+export interface LayerBase {
+  id: string;
+  // User-given name; empty means the layers panel derives one from the content.
+  name: string;
+  hidden: boolean;
+  locked: boolean;
+  // Layers sharing a non-empty group id select and move as one unit.
+  groupId: string;
+  // Center of the layer, as a percentage of the canvas width and height.
+  position: {
+    x: number;
+    y: number;
+  };
+  // Box size as a percentage of the canvas width and height. Text layers size
+  // themselves to their content and keep this only as their nominal box.
+  size: {
+    width: number;
+    height: number;
+  };
+  rotation: number;
+  opacity: number;
+  // Animated exports play these on the page's timeline; null leaves the layer still.
+  entrance: LayerAnimation | null;
+  exit: LayerAnimation | null;
+}
+
+export interface TextShadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// A padded box drawn behind the text, e.g. a pill or label.
+export interface TextBackground {
+  color: string;
+  padding: number;
+  radius: number;
+}
+
+// Fills the letters in place of the text color, running across the text's box.
+export interface TextGradient {
+  from: string;
+  to: string;
+  // As in linear-gradient(): 0 runs bottom to top and 90 left to right.
+  angle: number;
+}
+
+export interface TextLayer extends LayerBase {
+  type: 'text';
+  text: string;
+  fontFamily: string;
+  fontSize: string;
+  color: string;
+  // Replaces `color` while set.
+  gradient: TextGradient | null;
+  fontWeight: string;
+  textAlign: 'left' | 'center' | 'right';
+  italic: boolean;
+  underline: boolean;
+  uppercase: boolean;
+  // Extra space between letters, in pixels.
+  letterSpacing: number;
+  // Multiple of the font size.
+  lineHeight: number;
+  // Wraps lines at the box width, `size.width`, instead of growing to fit the longest line.
+  wrap: boolean;
+  // Shrinks the font below `fontSize` until the text fits inside the `size` box.
+  autoFit: boolean;
+  strokeWidth: number;
+  strokeColor: string;
+  shadow: TextShadow | null;
+  background: TextBackground | null;
+}
+
+export interface ImageLayer extends LayerBase {
+  type: 'image';
+  src: string;
+  fit: 'contain' | 'cover' | 'fill';
+}
+
+export interface ShapeLayer extends LayerBase {
+  type: 'shape';
+  shape: 'rectangle' | 'ellipse';
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  cornerRadius: number;
+}
+
+export type Layer = TextLayer | ImageLayer | ShapeLayer;
+export type LayerType = Layer['type'];
+
+// Partial updates are applied to a layer of a known type, so the type itself is never changed.
+export type LayerUpdate =
+  | Partial<Omit<TextLayer, 'type'>>
+  | Partial<Omit<ImageLayer, 'type'>>
+  | Partial<Omit<ShapeLayer, 'type'>>;
+
+export const IMAGE_FITS: ImageLayer['fit'][] = ['contain', 'cover', 'fill'];
+export const SHAPE_KINDS: ShapeLayer['shape'][] = ['rectangle', 'ellipse'];
+
+export const LAYER_DEFAULTS: Omit<LayerBase, 'id'> = {
+  name: '',
+  hidden: false,
+  locked: false,
+  groupId: '',
+  position: { x: 50, y: 50 },
+  size: { width: 40, height: 10 },
+  rotation: 0,
+  opacity: 1,
+  entrance: null,
+  exit: null,
+};
+
+// Every text layer used to get this shadow, so it stays the default.
+export const DEFAULT_TEXT_SHADOW: TextShadow = {
+  color: 'rgba(0,0,0,0.5)',
+  blur: 4,
+  offsetX: 2,
+  offsetY: 2,
+};
+
+export const DEFAULT_TEXT_BACKGROUND: TextBackground = {
+  color: '#000000',
+  padding: 16,
+  radius: 200,
+};
+
+export const TEXT_STYLE_DEFAULTS: Omit<TextLayer, keyof LayerBase | 'type'> = {
+  text: 'New Text',
+  fontFamily: 'Montserrat',
+  fontSize: '48px',
+  color: '#FFFFFF',
+  gradient: null,
+  fontWeight: 'bold',
+  textAlign: 'center',
+  italic: false,
+  underline: false,
+  uppercase: false,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  wrap: false,
+  autoFit: false,
+  strokeWidth: 0,
+  strokeColor: '#000000',
+  shadow: DEFAULT_TEXT_SHADOW,
+  background: null,
+};
+
+// Auto-fit text never shrinks below this many pixels.
+export const MIN_FIT_FONT_SIZE = 6;
+
+export const createLayerId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTextLayer = (overrides: Partial<Omit<TextLayer, 'type'>> = {}): TextLayer => ({
+  ...LAYER_DEFAULTS,
+  id: createLayerId(),
+  type: 'text',
+  ...TEXT_STYLE_DEFAULTS,
+  ...overrides,
+});
+
+export const createImageLayer = (src: string, overrides: Partial<Omit<ImageLayer, 'type' | 'src'>> = {}): ImageLayer => ({
+  ...LAYER_DEFAULTS,
+  size: { width: 30, height: 30 },
+  id: createLayerId(),
+  type: 'image',
+  src,
+  fit: 'contain',
+  ...overrides,
+});
+
+export const createShapeLayer = (shape: ShapeLayer['shape'], overrides: Partial<Omit<ShapeLayer, 'type' | 'shape'>> = {}): ShapeLayer => ({
+  ...LAYER_DEFAULTS,
+  size: { width: 50, height: 20 },
+  id: createLayerId(),
+  type: 'shape',
+  shape,
+  fill: '#2563EB',
+  stroke: '#FFFFFF',
+  strokeWidth: 0,
+  cornerRadius: shape === 'rectangle' ? 16 : 0,
+  ...overrides,
+});
+
+// Copies with fresh ids, offset so they don't sit exactly on top of the originals. Layers copied
+// together stay grouped together, in a new group of their own.
+export const cloneLayers = (layers: Layer[], offset = 2): Layer[] => {
+  const groupIds = new Map<string, string>();
+  for (const layer of layers) {
+    const members = layers.filter(other => other.groupId === layer.groupId).length;
+    if (layer.groupId && members > 1 && !groupIds.has(layer.groupId)) {
+      groupIds.set(layer.groupId, createLayerId());
+    }
+  }
+  return layers.map(layer => ({
+    ...layer,
+    id: createLayerId(),
+    groupId: groupIds.get(layer.groupId) ?? '',
+    position: { x: layer.position.x + offset, y: layer.position.y + offset },
+  }));
+};
+
+// The given ids plus every layer grouped with one of them.
+export const expandToGroups = (layers: Layer[], ids: string[]): string[] => {
+  const groupIds = new Set(layers.filter(layer => ids.includes(layer.id) && layer.groupId).map(layer => layer.groupId));
+  return layers
+    .filter(layer => ids.includes(layer.id) || groupIds.has(layer.groupId))
+    .map(layer => layer.id);
+};
+
+export const groupLayers = (layers: Layer[], ids: string[]): Layer[] => {
+  const groupId = createLayerId();
+  return layers.map(layer => (ids.includes(layer.id) ? { ...layer, groupId } : layer));
+};
+
+export const ungroupLayers = (layers: Layer[], ids: string[]): Layer[] =>
+  layers.map(layer => (ids.includes(layer.id) ? { ...layer, groupId: '' } : layer));
+
+// Boxed text lays out inside its `size` box; other text sizes itself to its content.
+export const isTextBoxed = (layer: TextLayer): boolean => layer.wrap || layer.autoFit;
+
+export const getTextGradientCss = ({ from, to, angle }: TextGradient): string =>
+  `linear-gradient(${angle}deg, ${from}, ${to})`;
+
+export const applyLayerUpdate = (layer: Layer, updates: LayerUpdate): Layer =>
+  ({ ...layer, ...updates }) as Layer;
+
+export const getLayerLabel = (layer: Layer): string => {
+  if (layer.name) return layer.name;
+  switch (layer.type) {
+    case 'text':
+      return layer.text.trim() || 'Empty text';
+    case 'image':
+      return 'Image';
+    case 'shape':
+      return layer.shape === 'ellipse' ? 'Ellipse' : 'Rectangle';
+  }
+};
+
+// Moves a layer to a new index in the stacking order; later layers draw on top.
+export const moveLayer = (layers: Layer[], id: string, toIndex: number): Layer[] => {
+  const fromIndex = layers.findIndex(layer => layer.id === id);
+  if (fromIndex === -1) return layers;
+  const target = Math.max(0, Math.min(layers.length - 1, toIndex));
+  if (target === fromIndex) return layers;
+
+  const next = [...layers];
+  const [layer] = next.splice(fromIndex, 1);
+  next.splice(target, 0, layer);
+  return next;
+};
+
+// Sizes an image layer so it keeps the image's aspect ratio on the given canvas.
+export const fitImageSize = (
+  naturalWidth: number,
+  naturalHeight: number,
+  canvas: { width: number; height: number },
+  maxPercent = 40
+): LayerBase['size'] => {
+  const scale = Math.min(
+    (canvas.width * maxPercent) / 100 / naturalWidth,
+    (canvas.height * maxPercent) / 100 / naturalHeight
+  );
+  return {
+    width: ((naturalWidth * scale) / canvas.width) * 100,
+    height: ((naturalHeight * scale) / canvas.height) * 100,
+  };
+};
@@ -0,0 +1,61 @@
+import type { CanvasSize } from './canvasFormats';
+import type { Bounds } from './geometry';
+import type { Layer } from './layers';
+
+// Margin, as a fraction of the shorter canvas side, that platforms may crop or cover.
+const SAFE_MARGIN = 0.05;
+
+// Sub-pixel slack, so a layer placed flush against an edge isn't flagged.
+const TOLERANCE = 0.5;
+
+export type LayoutIssue = 'offCanvas' | 'outsideSafeZone' | 'textOverflow';
+
+export interface LayoutWarning {
+  layerId: string;
+  issues: LayoutIssue[];
+  // Where the layer sits, rotation included, for outlining it on the canvas.
+  bounds: Bounds;
+}
+
+export const LAYOUT_ISSUE_LABELS: Record<LayoutIssue, string> = {
+  offCanvas: 'runs off the canvas and will be cut off',
+  outsideSafeZone: 'reaches into the edge margin, which may be cropped',
+  textOverflow: "doesn't fit its text box, even at the smallest size",
+};
+
+export const getSafeArea = (canvas: CanvasSize): Bounds => {
+  const margin = Math.min(canvas.width, canvas.height) * SAFE_MARGIN;
+  return { left: margin, top: margin, width: canvas.width - margin * 2, height: canvas.height - margin * 2 };
+};
+
+const contains = (outer: Bounds, inner: Bounds): boolean =>
+  inner.left >= outer.left - TOLERANCE &&
+  inner.top >= outer.top - TOLERANCE &&
+  inner.left + inner.width <= outer.left + outer.width + TOLERANCE &&
+  inner.top + inner.height <= outer.top + outer.height + TOLERANCE;
+
+// Shapes are left out: full-bleed bands and backdrops are meant to reach past the edge.
+export const getLayoutIssues = (
+  layer: Layer,
+  bounds: Bounds,
+  canvas: CanvasSize,
+  textOverflows: boolean
+): LayoutIssue[] => {
+  if (layer.hidden || layer.type === 'shape') return [];
+  const issues: LayoutIssue[] = [];
+  if (!contains({ left: 0, top: 0, ...canvas }, bounds)) issues.push('offCanvas');
+  else if (!contains(getSafeArea(canvas), bounds)) issues.push('outsideSafeZone');
+  if (textOverflows) issues.push('textOverflow');
+  return issues;
+};
+
+export const sameWarnings = (a: LayoutWarning[], b: LayoutWarning[]): boolean =>
+  a.length === b.length &&
+  a.every((warning, i) =>
+    warning.layerId === b[i].layerId &&
+    warning.issues.join() === b[i].issues.join() &&
+    warning.bounds.left === b[i].bounds.left &&
+    warning.bounds.top === b[i].bounds.top &&
+    warning.bounds.width === b[i].bounds.width &&
+    warning.bounds.height === b[i].bounds.height
+  );
@@ -0,0 +1,59 @@
+import { DEFAULT_BACKGROUND, type Background } from './background';
+import type { Design } from './design';
+import { cloneLayers, createLayerId, type Layer } from './layers';
+import { fillPlaceholders } from './placeholders';
+
+// One slide of a design. Single images are designs with one page.
+export interface Page {
+  id: string;
+  template?: string;
+  background: Background;
+  layers: Layer[];
+}
+
+// Master layers such as a logo or page counter can show the slide's place in the carousel.
+export const PAGE_PLACEHOLDERS = ['page', 'pages'];
+
+export const createPageId = createLayerId;
+
+export const createPage = (overrides: Partial<Page> = {}): Page => ({
+  id: createPageId(),
+  background: DEFAULT_BACKGROUND,
+  layers: [],
+  ...overrides,
+});
+
+// A copy with fresh ids, so its layers can be told apart from the original's.
+export const duplicatePage = (page: Page): Page => ({
+  ...page,
+  id: createPageId(),
+  layers: cloneLayers(page.layers, 0),
+});
+
+export const movePage = (pages: Page[], id: string, toIndex: number): Page[] => {
+  const fromIndex = pages.findIndex(page => page.id === id);
+  const target = Math.max(0, Math.min(pages.length - 1, toIndex));
+  if (fromIndex === -1 || target === fromIndex) return pages;
+
+  const next = [...pages];
+  const [page] = next.splice(fromIndex, 1);
+  next.splice(target, 0, page);
+  return next;
+};
+
+// Master layers as they appear on one page, with {{page}} and {{pages}} filled in.
+export const getMasterLayersForPage = (masterLayers: Layer[], index: number, pageCount: number): Layer[] =>
+  fillPlaceholders(masterLayers, { page: String(index + 1), pages: String(pageCount) });
+
+export const updatePage = (pages: Page[], id: string, change: (page: Page) => Page): Page[] =>
+  pages.map(page => (page.id === id ? change(page) : page));
+
+// Fills CSV placeholders everywhere, leaving {{page}} and {{pages}} for each page to fill in.
+export const fillDesignPlaceholders = (design: Design, row: Record<string, string>): Design => {
+  const fields = Object.fromEntries(Object.entries(row).filter(([name]) => !PAGE_PLACEHOLDERS.includes(name)));
+  return {
+    ...design,
+    pages: design.pages.map(page => ({ ...page, layers: fillPlaceholders(page.layers, fields) })),
+    masterLayers: fillPlaceholders(design.masterLayers, fields),
+  };
+};
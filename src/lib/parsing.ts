@@ -0,0 +1,65 @@
+// Readers for the JSON files the editor opens, designs and brand kits, so both are checked the same way.
+// Each format throws its own error class, so callers can tell which kind of file was at fault.
+
+export type RawObject = Record<string, unknown>;
+
+type ParseErrorClass = new (message: string) => Error;
+
+export const isRecord = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createReaders = (ParseError: ParseErrorClass) => {
+  const readString = (raw: RawObject, key: string, path: string, fallback?: string): string => {
+    const value = raw[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'string') {
+      throw new ParseError(`${path}.${key} must be a string`);
+    }
+    return value;
+  };
+
+  const readNumber = (raw: RawObject, key: string, path: string, fallback?: number): number => {
+    const value = raw[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ParseError(`${path}.${key} must be a number`);
+    }
+    return value;
+  };
+
+  const readBoolean = (raw: RawObject, key: string, path: string, fallback: boolean): boolean => {
+    const value = raw[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'boolean') {
+      throw new ParseError(`${path}.${key} must be true or false`);
+    }
+    return value;
+  };
+
+  const readEnum = <T extends string>(raw: RawObject, key: string, path: string, options: T[], fallback: T): T => {
+    const value = readString(raw, key, path, fallback);
+    if (!options.includes(value as T)) {
+      throw new ParseError(`${path}.${key} must be one of ${options.join(', ')}`);
+    }
+    return value as T;
+  };
+
+  // Reads an optional nested object, where null (or a missing key) means the feature is off.
+  const readNullable = <T>(
+    raw: RawObject,
+    key: string,
+    path: string,
+    fallback: T | null,
+    parse: (value: RawObject, path: string) => T
+  ): T | null => {
+    const value = raw[key];
+    if (value === undefined) return fallback;
+    if (value === null) return null;
+    if (!isRecord(value)) {
+      throw new ParseError(`${path}.${key} must be an object or null`);
+    }
+    return parse(value, `${path}.${key}`);
+  };
+
+  return { readString, readNumber, readBoolean, readEnum, readNullable };
+};
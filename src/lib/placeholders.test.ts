@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+import { createShapeLayer, createTextLayer, type TextLayer } from './layers';
+import { buildFileNames, fillPlaceholders, findPlaceholders } from './placeholders';
+
+const fillText = (text: string, row: Record<string, string>) =>
+  (fillPlaceholders([createTextLayer({ text })], row)[0] as TextLayer).text;
+
+describe('parseCsv', () => {
+  it('reads the first row as column names', () => {
+    expect(parseCsv('name, price\nMug,12\nHat,20\n')).toEqual({
+      headers: ['name', 'price'],
+      rows: [{ name: 'Mug', price: '12' }, { name: 'Hat', price: '20' }],
+    });
+  });
+
+  it('keeps commas, newlines and doubled quotes inside quoted fields', () => {
+    const { rows } = parseCsv('name,note\r\n"Mug, large","Line one\nLine two"\n"The ""best"" hat",ok');
+    expect(rows).toEqual([
+      { name: 'Mug, large', note: 'Line one\nLine two' },
+      { name: 'The "best" hat', note: 'ok' },
+    ]);
+  });
+
+  it('reads tab-separated rows pasted from a spreadsheet', () => {
+    expect(parseCsv('name\tprice\nMug\t12').rows).toEqual([{ name: 'Mug', price: '12' }]);
+  });
+
+  it('drops a byte order mark, fills missing fields with empty strings and skips blank lines', () => {
+    expect(parseCsv('\uFEFFname,price\n\nMug\n').rows).toEqual([{ name: 'Mug', price: '' }]);
+  });
+});
+
+describe('fillPlaceholders', () => {
+  it('replaces placeholders with the row and leaves unknown ones as they are', () => {
+    expect(fillText('{{ name }} for {{price}} {{missing}}', { name: 'Mug', price: '$12' })).toBe('Mug for $12 {{missing}}');
+  });
+
+  it("doesn't fill placeholders from members every object inherits", () => {
+    const text = '{{constructor}} {{toString}} {{__proto__}}';
+    expect(fillText(text, { name: 'Mug' })).toBe(text);
+    expect(fillText(text, parseCsv('name\nMug').rows[0])).toBe(text);
+  });
+
+  it('leaves other layers alone', () => {
+    const shape = createShapeLayer('rectangle');
+    expect(fillPlaceholders([shape], { name: 'Mug' })).toEqual([shape]);
+  });
+});
+
+describe('findPlaceholders', () => {
+  it('lists each column once, in order of first use', () => {
+    const layers = [createTextLayer({ text: '{{b}} {{a}}' }), createTextLayer({ text: '{{ a }} {{c}}' })];
+    expect(findPlaceholders(layers)).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('buildFileNames', () => {
+  it('numbers repeated names after the first', () => {
+    const rows = [{ name: 'Mug' }, { name: 'Hat' }, { name: 'Mug' }, { name: 'Mug' }];
+    expect(buildFileNames(rows, 'name', 'png')).toEqual(['Mug.png', 'Hat.png', 'Mug-2.png', 'Mug-3.png']);
+  });
+
+  it('falls back to numbered names for empty values, missing columns and no column', () => {
+    expect(buildFileNames([{ name: '' }, { name: 'a/b' }], 'name', 'png')).toEqual(['design-1.png', 'a-b.png']);
+    expect(buildFileNames([{ name: 'Mug' }], 'constructor', 'png')).toEqual(['design-1.png']);
+    expect(buildFileNames([{ name: 'Mug' }], null, 'jpg')).toEqual(['design-1.jpg']);
+  });
+});
@@ -0,0 +1,38 @@
+import { toSafeFileName } from './download';
+import type { Layer } from './layers';
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Column names referenced as {{column}} in any text layer, in order of first use.
+export const findPlaceholders = (layers: Layer[]): string[] => {
+  const names = new Set<string>();
+  for (const layer of layers) {
+    if (layer.type !== 'text') continue;
+    for (const match of layer.text.matchAll(PLACEHOLDER)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+};
+
+// Only the row's own columns count, so names like {{constructor}} don't pick up Object's members.
+const getField = (row: Record<string, string>, name: string): string | undefined =>
+  Object.prototype.hasOwnProperty.call(row, name) ? row[name] : undefined;
+
+export const fillPlaceholders = (layers: Layer[], row: Record<string, string>): Layer[] =>
+  layers.map(layer =>
+    layer.type === 'text'
+      ? { ...layer, text: layer.text.replace(PLACEHOLDER, (token, name: string) => getField(row, name) ?? token) }
+      : layer
+  );
+
+// Builds unique, filesystem-safe file names for each row, falling back to a numbered name.
+export const buildFileNames = (rows: Record<string, string>[], column: string | null, extension: string): string[] => {
+  const used = new Map<string, number>();
+  return rows.map((row, index) => {
+    const base = toSafeFileName(column ? getField(row, column) ?? '' : '') || `design-${index + 1}`;
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return `${count === 0 ? base : `${base}-${count + 1}`}.${extension}`;
+  });
+};
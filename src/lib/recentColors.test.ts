@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_RECENT_COLORS, addRecentColor } from './recentColors';
+
+describe('addRecentColor', () => {
+  it('puts the newest color first', () => {
+    expect(addRecentColor(['#000000'], '#FFFFFF')).toEqual(['#FFFFFF', '#000000']);
+  });
+
+  it('moves a color used again to the front, however it was written', () => {
+    expect(addRecentColor(['#FF0000', '#00FF00'], 'rgba(255, 0, 0, 1)')).toEqual(['rgba(255, 0, 0, 1)', '#00FF00']);
+    expect(addRecentColor(['#ff0000', '#00FF00'], '#FF0000')).toEqual(['#FF0000', '#00FF00']);
+  });
+
+  it('keeps see-through versions of a color apart from the opaque one', () => {
+    expect(addRecentColor(['#FF0000'], 'rgba(255, 0, 0, 0.5)')).toEqual(['rgba(255, 0, 0, 0.5)', '#FF0000']);
+  });
+
+  it('drops the oldest color once the row is full', () => {
+    const colors = Array.from({ length: MAX_RECENT_COLORS }, (_, index) => `#00000${index}`);
+    expect(addRecentColor(colors, '#FFFFFF')).toEqual(['#FFFFFF', ...colors.slice(0, -1)]);
+  });
+});
@@ -0,0 +1,27 @@
+import { isValidColor, sameColor } from './colors';
+
+const RECENT_COLORS_KEY = 'smm-static:recent-colors';
+
+export const MAX_RECENT_COLORS = 8;
+
+// Recent colors follow the user across designs, so they're remembered per browser.
+export const getRecentColors = (): string[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(RECENT_COLORS_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((color): color is string => typeof color === 'string' && isValidColor(color)).slice(0, MAX_RECENT_COLORS)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const setRecentColors = (colors: string[]) => {
+  localStorage.setItem(RECENT_COLORS_KEY, JSON.stringify(colors));
+};
+
+// Puts the color first, dropping an earlier use of it however it was written and the oldest once the row is full.
+export const addRecentColor = (colors: string[], color: string): string[] => [
+  color,
+  ...colors.filter(other => !sameColor(other, color)),
+].slice(0, MAX_RECENT_COLORS);
@@ -0,0 +1,78 @@
+import { encodeAnimation, type AnimationSettings } from './animationEncoder';
+import type { FontFaceSource } from './fonts';
+import {
+  getCanvasFont,
+  getSceneTextLayers,
+  renderScene,
+  type RenderOptions,
+  type RenderResources,
+  type RenderScene,
+} from './renderer';
+
+// A still image in the given MIME type, with a quality for lossy ones, or the page's animation.
+export type RenderTask =
+  | { kind: 'image'; options: RenderOptions; type: string; quality?: number }
+  | { kind: 'animation'; settings: AnimationSettings };
+
+export interface RenderJob {
+  id: number;
+  scene: RenderScene;
+  task: RenderTask;
+  images: [string, ImageBitmap][];
+  fontStacks: Record<string, string>;
+  fontFaces: FontFaceSource[];
+}
+
+export type RenderReply =
+  | { id: number; blob: Blob }
+  // `unsupported` means this browser can't render in a worker at all, so the page should do it.
+  | { id: number; error: string; unsupported: boolean };
+
+// The app is type-checked against the DOM library, which doesn't describe a worker's own font set.
+const fonts = (self as unknown as { fonts?: FontFaceSet }).fonts;
+const declared = new Set<string>();
+
+const declareFonts = (sources: FontFaceSource[]) => {
+  for (const { family, source, descriptors } of sources) {
+    const key = JSON.stringify([family, source, descriptors]);
+    if (declared.has(key)) continue;
+    fonts?.add(new FontFace(family, source, descriptors));
+    declared.add(key);
+  }
+};
+
+const render = async (job: RenderJob): Promise<Blob> => {
+  declareFonts(job.fontFaces);
+  // Only the faces covering the text's characters are downloaded, as in the page.
+  await Promise.all(getSceneTextLayers(job.scene).map(layer =>
+    fonts?.load(getCanvasFont(layer, parseFloat(layer.fontSize), job.fontStacks), layer.text || undefined).catch(() => [])
+  ));
+
+  const { scene, task } = job;
+  const resources: RenderResources = { images: new Map(job.images), fontStacks: job.fontStacks };
+  if (task.kind === 'animation') {
+    return encodeAnimation(new OffscreenCanvas(scene.canvas.width, scene.canvas.height), scene, resources, task.settings);
+  }
+
+  const { scale } = task.options;
+  const canvas = new OffscreenCanvas(Math.round(scene.canvas.width * scale), Math.round(scene.canvas.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a canvas to render on');
+  renderScene(ctx, scene, resources, task.options);
+  return canvas.convertToBlob({ type: task.type, quality: task.quality });
+};
+
+self.onmessage = async ({ data: job }: MessageEvent<RenderJob>) => {
+  let reply: RenderReply;
+  if (!fonts || typeof OffscreenCanvas === 'undefined') {
+    reply = { id: job.id, error: 'This browser can\'t render in the background', unsupported: true };
+  } else {
+    try {
+      reply = { id: job.id, blob: await render(job) };
+    } catch (err) {
+      reply = { id: job.id, error: err instanceof Error ? err.message : 'Could not render the design', unsupported: false };
+    }
+  }
+  for (const [, image] of job.images) image.close();
+  self.postMessage(reply);
+};
@@ -0,0 +1,95 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { GlobalFonts, createCanvas, loadImage, type Image } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { parseDesign } from './design';
+import { getPageScene, getSceneImageSources, renderScene, type RenderContext, type RenderOptions, type RenderResources, type RenderScene } from './renderer';
+
+// Fixture designs are drawn with a Node canvas backend and compared against the PNGs committed beside
+// them. Run with UPDATE_GOLDENS=1 to rewrite the PNGs after a deliberate change to the renderer.
+
+const FIXTURES = new URL('./__fixtures__/renderer/', import.meta.url);
+// A channel may be off by this much, as antialiasing differs slightly between builds of Skia.
+const CHANNEL_TOLERANCE = 8;
+// Share of pixels allowed past the tolerance, for glyph edges.
+const MAX_DIFFERENT_PIXELS = 0.002;
+
+// Lato is bundled with the app, so text renders the same wherever the tests run.
+const require = createRequire(import.meta.url);
+for (const weight of [400, 700]) {
+  for (const style of ['normal', 'italic']) {
+    GlobalFonts.registerFromPath(require.resolve(`@fontsource/lato/files/lato-latin-${weight}-${style}.woff2`), 'Lato');
+  }
+}
+
+const fixturePath = (name: string) => fileURLToPath(new URL(name, FIXTURES));
+
+const loadScene = (name: string): RenderScene =>
+  getPageScene(parseDesign(readFileSync(fixturePath(`${name}.json`), 'utf8')), 0);
+
+// Image sources in fixtures are file names beside them; ones that don't exist are left out, as failed loads are.
+const loadResources = async (scene: RenderScene): Promise<RenderResources> => {
+  const images = new Map<string, Image>();
+  for (const src of getSceneImageSources(scene)) {
+    if (existsSync(fixturePath(src))) images.set(src, await loadImage(fixturePath(src)));
+  }
+  return { images: images as unknown as RenderResources['images'], fontStacks: { Lato: '"Lato"' } };
+};
+
+const render = async (scene: RenderScene, options: RenderOptions) => {
+  const canvas = createCanvas(Math.round(scene.canvas.width * options.scale), Math.round(scene.canvas.height * options.scale));
+  renderScene(canvas.getContext('2d') as unknown as RenderContext, scene, await loadResources(scene), options);
+  return canvas;
+};
+
+const readPixels = async (png: Buffer) => {
+  const image = await loadImage(png);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.width, image.height);
+};
+
+const expectToMatchGolden = async (png: Buffer, name: string) => {
+  const path = fixturePath(`${name}.png`);
+  if (process.env.UPDATE_GOLDENS || (!existsSync(path) && !process.env.CI)) {
+    writeFileSync(path, png);
+    return;
+  }
+  const [actual, golden] = await Promise.all([readPixels(png), readPixels(readFileSync(path))]);
+  expect([actual.width, actual.height]).toEqual([golden.width, golden.height]);
+
+  let different = 0;
+  for (let i = 0; i < actual.data.length; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(actual.data[i + channel] - golden.data[i + channel]) > CHANNEL_TOLERANCE) {
+        different++;
+        break;
+      }
+    }
+  }
+  expect(different / (actual.width * actual.height), `${different} pixels differ from ${name}.png`)
+    .toBeLessThanOrEqual(MAX_DIFFERENT_PIXELS);
+};
+
+describe('renderScene', () => {
+  it.each(['shapes', 'text', 'images'])('draws the %s fixture like its golden image', async (name) => {
+    const canvas = await render(loadScene(name), { scale: 1, transparent: false });
+    await expectToMatchGolden(canvas.toBuffer('image/png'), name);
+  });
+
+  it('draws at the export scale', async () => {
+    const canvas = await render(loadScene('shapes'), { scale: 2, transparent: false });
+    expect([canvas.width, canvas.height]).toEqual([640, 800]);
+    await expectToMatchGolden(canvas.toBuffer('image/png'), 'shapes@2x');
+  });
+
+  it('leaves the background out of transparent renders', async () => {
+    const canvas = await render(loadScene('shapes'), { scale: 1, transparent: true });
+    const ctx = canvas.getContext('2d');
+    expect([...ctx.getImageData(5, 5, 1, 1).data]).toEqual([0, 0, 0, 0]);
+    // The card in the middle of the top third is still drawn.
+    expect([...ctx.getImageData(160, 120, 1, 1).data]).toEqual([255, 255, 255, 255]);
+  });
+});
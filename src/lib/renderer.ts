@@ -0,0 +1,405 @@
+import { getFillCss, type Background, type BackgroundFit } from './background';
+import type { CanvasSize } from './canvasFormats';
+import type { Design } from './design';
+import { MIN_FIT_FONT_SIZE, isTextBoxed, type ImageLayer, type Layer, type TextLayer } from './layers';
+import { getMasterLayersForPage } from './pages';
+
+// Draws designs with the Canvas 2D API alone, so exports come out the same whatever the editor's
+// window size or selection, and the drawing can run in a worker or outside the browser.
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Parts of an animation frame that a layer's own fields can't express.
+export interface LayerMotion {
+  scale: number;
+  // Fraction of a text layer's characters shown so far.
+  reveal: number;
+}
+
+// Everything drawn for one page: its background, its layers and the master layers on top.
+export interface RenderScene {
+  canvas: CanvasSize;
+  background: Background;
+  template?: string;
+  layers: Layer[];
+  // Length of the page's animation, in seconds.
+  duration: number;
+  // Set for a single frame of an animation, keyed by layer id.
+  motion?: Record<string, LayerMotion>;
+}
+
+export interface RenderOptions {
+  scale: number;
+  // Leaves out the background fill so the layers sit on a see-through canvas.
+  transparent: boolean;
+}
+
+// Decoded images keyed by their source, and the CSS font stack for each font family. Images
+// that failed to load are left out and draw nothing.
+export interface RenderResources {
+  images: Map<string, ImageBitmap>;
+  fontStacks: Record<string, string>;
+}
+
+type FitMode = ImageLayer['fit'];
+
+const BACKGROUND_FIT_MODES: Record<BackgroundFit, FitMode> = {
+  cover: 'cover',
+  contain: 'contain',
+  stretch: 'fill',
+};
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getPageScene = (design: Design, pageIndex: number): RenderScene => {
+  const page = design.pages[pageIndex];
+  return {
+    canvas: design.canvas,
+    background: page.background,
+    template: page.template,
+    layers: [...page.layers, ...getMasterLayersForPage(design.masterLayers, pageIndex, design.pages.length)],
+    duration: design.duration,
+  };
+};
+
+const visibleLayers = (scene: RenderScene) => scene.layers.filter(layer => !layer.hidden);
+
+// Every image the scene draws, for decoding before it's rendered.
+export const getSceneImageSources = (scene: RenderScene): string[] => [
+  ...new Set([
+    ...(scene.template ? [scene.template] : []),
+    ...visibleLayers(scene).flatMap(layer => (layer.type === 'image' ? [layer.src] : [])),
+  ]),
+];
+
+export const getSceneTextLayers = (scene: RenderScene): TextLayer[] =>
+  visibleLayers(scene).flatMap(layer => (layer.type === 'text' ? [layer] : []));
+
+// A CSS font shorthand, as taken by the canvas `font` property and FontFaceSet.load().
+export const getCanvasFont = (layer: TextLayer, fontSize: number, fontStacks: Record<string, string>): string =>
+  `${layer.italic ? 'italic ' : ''}${layer.fontWeight} ${fontSize}px ${fontStacks[layer.fontFamily] ?? `"${layer.fontFamily}"`}`;
+
+// Where an image of the given size lands in a box, as CSS object-fit places it.
+const fitImage = (image: { width: number; height: number }, box: Rect, fit: FitMode): Rect => {
+  if (fit === 'fill') return box;
+  const scaleX = box.width / image.width;
+  const scaleY = box.height / image.height;
+  const scale = fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+};
+
+// CSS shrinks corner radii that don't fit rather than letting them overlap.
+const roundedRect = (ctx: RenderContext, { x, y, width, height }: Rect, radius: number) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, Math.max(0, Math.min(radius, width / 2, height / 2)));
+};
+
+// The gradient line of linear-gradient(<angle>deg) across a box, which is long enough to reach the far corners.
+const createLinearGradient = (ctx: RenderContext, { x, y, width, height }: Rect, angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  return ctx.createLinearGradient(centerX - dx * half, centerY - dy * half, centerX + dx * half, centerY + dy * half);
+};
+
+const drawBackground = (ctx: RenderContext, scene: RenderScene, images: RenderResources['images'], options: RenderOptions) => {
+  const { canvas, background: { fill, image: settings } } = scene;
+
+  if (!options.transparent) {
+    if (fill.type === 'solid') {
+      ctx.fillStyle = getFillCss(fill);
+    } else {
+      // radial-gradient(circle, ...) reaches the farthest corner.
+      const gradient = fill.type === 'linear'
+        ? createLinearGradient(ctx, { x: 0, y: 0, ...canvas }, fill.angle)
+        : ctx.createRadialGradient(canvas.width / 2, canvas.height / 2, 0, canvas.width / 2, canvas.height / 2, Math.hypot(canvas.width, canvas.height) / 2);
+      gradient.addColorStop(0, fill.from);
+      gradient.addColorStop(1, fill.to);
+      ctx.fillStyle = gradient;
+    }
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const image = scene.template ? images.get(scene.template) : undefined;
+  if (!image) return;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, canvas.width, canvas.height);
+  ctx.clip();
+  // Pan is a percentage of the frame and zoom scales around its center, as in the preview's transform.
+  ctx.translate(canvas.width / 2 + (canvas.width * settings.offsetX) / 100, canvas.height / 2 + (canvas.height * settings.offsetY) / 100);
+  ctx.scale(settings.zoom, settings.zoom);
+  // Filter lengths ignore the transform, so the blur is scaled by hand.
+  ctx.filter = `brightness(${settings.brightness}%) contrast(${settings.contrast}%) blur(${settings.blur * options.scale}px)`;
+  const { x, y, width, height } = fitImage(
+    image,
+    { x: -canvas.width / 2, y: -canvas.height / 2, width: canvas.width, height: canvas.height },
+    BACKGROUND_FIT_MODES[settings.fit]
+  );
+  ctx.drawImage(image, x, y, width, height);
+  ctx.restore();
+
+  if (settings.overlay > 0) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${settings.overlay})`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+};
+
+// overflow-wrap: break-word splits a word between characters only when it's too wide for a line of its own.
+const breakWord = (ctx: RenderContext, text: string, maxWidth: number): string[] => {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > 1 && ctx.measureText(rest).width > maxWidth) {
+    let end = rest.length - 1;
+    while (end > 1 && ctx.measureText(rest.slice(0, end)).width > maxWidth) end--;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  return [...pieces, rest];
+};
+
+// Breaks a line at spaces to fit the width. Spaces at a break hang off the end, as with pre-wrap.
+const wrapLine = (ctx: RenderContext, line: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of line.match(/\s*\S+\s*|\s+/g) ?? ['']) {
+    const candidate = current + word;
+    if (current && ctx.measureText(candidate.trimEnd()).width > maxWidth) {
+      lines.push(current.trimEnd());
+      current = word.trimStart();
+    } else {
+      current = candidate;
+    }
+  }
+  lines.push(current.trimEnd());
+  return lines.flatMap(wrapped => breakWord(ctx, wrapped, maxWidth));
+};
+
+interface TextLayout {
+  fontSize: number;
+  lines: string[];
+  width: number;
+  height: number;
+}
+
+const setTextStyle = (ctx: RenderContext, layer: TextLayer, fontSize: number, fontStacks: Record<string, string>) => {
+  ctx.font = getCanvasFont(layer, fontSize, fontStacks);
+  ctx.letterSpacing = `${layer.letterSpacing}px`;
+};
+
+// Lays text out the way the preview's CSS does: boxed text takes the layer's box, wrapping and
+// shrinking to fit as the layer asks, and other text grows with its lines up to the canvas width.
+export const layoutText = (
+  ctx: RenderContext,
+  layer: TextLayer,
+  canvas: CanvasSize,
+  fontStacks: Record<string, string>
+): TextLayout => {
+  const text = layer.uppercase ? layer.text.toUpperCase() : layer.text;
+  const padding = layer.background?.padding ?? 0;
+  const boxWidth = (canvas.width * layer.size.width) / 100;
+  const boxHeight = (canvas.height * layer.size.height) / 100;
+  const contentWidth = Math.max(0, boxWidth - padding * 2);
+
+  const breakLines = (fontSize: number) => {
+    setTextStyle(ctx, layer, fontSize, fontStacks);
+    if (!text) return [];
+    return text.split('\n').flatMap(line => (layer.wrap ? wrapLine(ctx, line, contentWidth) : [line]));
+  };
+  const widestLine = (lines: string[]) => Math.max(0, ...lines.map(line => ctx.measureText(line).width));
+
+  let fontSize = parseFloat(layer.fontSize);
+  let lines = breakLines(fontSize);
+
+  if (layer.autoFit) {
+    // The same search as the preview's, allowing for the same sub-pixel rounding.
+    const fits = (size: number) => {
+      lines = breakLines(size);
+      return lines.length * size * layer.lineHeight <= boxHeight - padding * 2 + 1
+        && (layer.wrap || widestLine(lines) <= contentWidth + 1);
+    };
+    if (!fits(fontSize)) {
+      let low = MIN_FIT_FONT_SIZE;
+      let high = fontSize;
+      while (high - low > 0.5) {
+        const mid = (low + high) / 2;
+        if (fits(mid)) low = mid;
+        else high = mid;
+      }
+      fontSize = Math.floor(low * 2) / 2;
+      lines = breakLines(fontSize);
+    }
+  }
+
+  return {
+    fontSize,
+    lines,
+    width: isTextBoxed(layer) ? boxWidth : Math.min(canvas.width, widestLine(lines) + padding * 2),
+    height: layer.autoFit ? boxHeight : lines.length * fontSize * layer.lineHeight + padding * 2,
+  };
+};
+
+const drawText = (
+  ctx: RenderContext,
+  layer: TextLayer,
+  canvas: CanvasSize,
+  fontStacks: Record<string, string>,
+  scale: number,
+  reveal: number
+) => {
+  const { fontSize, lines, width, height } = layoutText(ctx, layer, canvas, fontStacks);
+  const box = { x: -width / 2, y: -height / 2, width, height };
+
+  if (layer.background) {
+    ctx.fillStyle = layer.background.color;
+    roundedRect(ctx, box, layer.background.radius);
+    ctx.fill();
+  }
+
+  const padding = layer.background?.padding ?? 0;
+  const lineHeight = fontSize * layer.lineHeight;
+  const left = box.x + padding;
+  const contentWidth = width - padding * 2;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+
+  // Partly typed text keeps its final layout, so lines don't shift as characters appear.
+  let remaining = Math.floor(lines.reduce((count, line) => count + [...line].length, 0) * reveal);
+
+  // Glyphs sit in the middle of each line box, with the leading split above and below.
+  const placed = lines.map((line, index) => {
+    const metrics = ctx.measureText(line);
+    const glyphHeight = metrics.fontBoundingBoxAscent + metrics.fontBoundingBoxDescent;
+    const baseline = box.y + padding + index * lineHeight + (lineHeight - glyphHeight) / 2 + metrics.fontBoundingBoxAscent;
+    const start = layer.textAlign === 'left'
+      ? left
+      : layer.textAlign === 'right' ? left + contentWidth - metrics.width : left + (contentWidth - metrics.width) / 2;
+    const characters = [...line];
+    const shown = characters.slice(0, Math.max(0, remaining)).join('');
+    remaining -= characters.length;
+    return { text: shown, baseline, start, width: shown === line ? metrics.width : ctx.measureText(shown).width };
+  });
+
+  // Shadows ignore the transform, so the offset is turned with the layer and everything is scaled by hand.
+  if (layer.shadow) {
+    const { color, blur, offsetX, offsetY } = layer.shadow;
+    const radians = (layer.rotation * Math.PI) / 180;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = blur * scale;
+    ctx.shadowOffsetX = (offsetX * Math.cos(radians) - offsetY * Math.sin(radians)) * scale;
+    ctx.shadowOffsetY = (offsetX * Math.sin(radians) + offsetY * Math.cos(radians)) * scale;
+  }
+
+  // The stroke goes under the fill so outlines don't eat into thin letters; the shadow is cast once.
+  if (layer.strokeWidth > 0) {
+    ctx.strokeStyle = layer.strokeColor;
+    ctx.lineWidth = layer.strokeWidth;
+    ctx.lineJoin = 'round';
+    for (const { text, baseline, start } of placed) ctx.strokeText(text, start, baseline);
+    ctx.shadowColor = 'transparent';
+  }
+
+  if (layer.gradient) {
+    const gradient = createLinearGradient(ctx, box, layer.gradient.angle);
+    gradient.addColorStop(0, layer.gradient.from);
+    gradient.addColorStop(1, layer.gradient.to);
+    ctx.fillStyle = gradient;
+  } else {
+    ctx.fillStyle = layer.color;
+  }
+  for (const { text, baseline, start, width: lineWidth } of placed) {
+    ctx.fillText(text, start, baseline);
+    if (layer.underline && text) {
+      const thickness = Math.max(1, fontSize / 16);
+      ctx.fillRect(start, baseline + fontSize / 10, lineWidth, thickness);
+    }
+  }
+};
+
+const drawImageLayer = (ctx: RenderContext, layer: ImageLayer, box: Rect, images: RenderResources['images']) => {
+  const image = images.get(layer.src);
+  if (!image) return;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, box.width, box.height);
+  ctx.clip();
+  const { x, y, width, height } = fitImage(image, box, layer.fit);
+  ctx.drawImage(image, x, y, width, height);
+  ctx.restore();
+};
+
+const drawLayer = (
+  ctx: RenderContext,
+  layer: Layer,
+  canvas: CanvasSize,
+  resources: RenderResources,
+  scale: number,
+  motion: LayerMotion = { scale: 1, reveal: 1 }
+) => {
+  if (motion.scale <= 0) return;
+  const width = (canvas.width * layer.size.width) / 100;
+  const height = (canvas.height * layer.size.height) / 100;
+  const box = { x: -width / 2, y: -height / 2, width, height };
+
+  ctx.save();
+  ctx.translate((canvas.width * layer.position.x) / 100, (canvas.height * layer.position.y) / 100);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.scale(motion.scale, motion.scale);
+  ctx.globalAlpha = layer.opacity;
+
+  switch (layer.type) {
+    case 'text':
+      drawText(ctx, layer, canvas, resources.fontStacks, scale * motion.scale, motion.reveal);
+      break;
+    case 'image':
+      drawImageLayer(ctx, layer, box, resources.images);
+      break;
+    case 'shape': {
+      // Borders sit inside the box, so the stroke is centered half its width in from the edge.
+      const inset = layer.strokeWidth / 2;
+      const strokeBox = { x: box.x + inset, y: box.y + inset, width: Math.max(0, width - layer.strokeWidth), height: Math.max(0, height - layer.strokeWidth) };
+      const tracePath = (rect: Rect, radius: number) => {
+        if (layer.shape === 'ellipse') {
+          ctx.beginPath();
+          ctx.ellipse(0, 0, rect.width / 2, rect.height / 2, 0, 0, Math.PI * 2);
+        } else {
+          roundedRect(ctx, rect, radius);
+        }
+      };
+      ctx.fillStyle = layer.fill;
+      tracePath(box, layer.cornerRadius);
+      ctx.fill();
+      if (layer.strokeWidth > 0) {
+        ctx.strokeStyle = layer.stroke;
+        ctx.lineWidth = layer.strokeWidth;
+        tracePath(strokeBox, layer.cornerRadius - inset);
+        ctx.stroke();
+      }
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+// Draws the scene onto a context whose canvas is `scale` times the design's pixel size. Images
+// must already be decoded and fonts loaded into whatever font set the context uses.
+export const renderScene = (ctx: RenderContext, scene: RenderScene, resources: RenderResources, options: RenderOptions) => {
+  ctx.save();
+  ctx.scale(options.scale, options.scale);
+  drawBackground(ctx, scene, resources.images, options);
+  for (const layer of visibleLayers(scene)) {
+    drawLayer(ctx, layer, scene.canvas, resources, options.scale, scene.motion?.[layer.id]);
+  }
+  ctx.restore();
+};
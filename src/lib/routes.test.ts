@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getRoutePath, parseRoute } from './routes';
+
+describe('parseRoute', () => {
+  it('reads design ids back from the paths getRoutePath builds', () => {
+    const route = { name: 'design', id: 'summer sale/2' } as const;
+    expect(parseRoute(getRoutePath(route))).toEqual(route);
+  });
+
+  it('ignores trailing slashes', () => {
+    expect(parseRoute('/templates/')).toEqual({ name: 'templates' });
+  });
+
+  it('opens the editor for unknown paths', () => {
+    expect(parseRoute('/')).toEqual({ name: 'editor' });
+    expect(parseRoute('/designs/a/b')).toEqual({ name: 'editor' });
+  });
+
+  it('opens the editor for design paths with malformed escapes', () => {
+    expect(parseRoute('/designs/%E0%A4%A')).toEqual({ name: 'editor' });
+  });
+});
@@ -0,0 +1,31 @@
+// Client-side routes. The static host's catch-all redirect serves index.html for every path.
+export type Route =
+  | { name: 'editor' }
+  | { name: 'templates' }
+  | { name: 'design'; id: string };
+
+export const parseRoute = (pathname: string): Route => {
+  const path = pathname.replace(/\/+$/, '');
+  if (path === '/templates') return { name: 'templates' };
+  const design = /^\/designs\/([^/]+)$/.exec(path);
+  if (design) {
+    try {
+      return { name: 'design', id: decodeURIComponent(design[1]) };
+    } catch {
+      // A malformed escape like %E0%A4%A can't name a design; it's treated as unknown.
+    }
+  }
+  // The bare domain, /editor and anything unknown open the editor on the last design.
+  return { name: 'editor' };
+};
+
+export const getRoutePath = (route: Route): string => {
+  switch (route.name) {
+    case 'editor':
+      return '/editor';
+    case 'templates':
+      return '/templates';
+    case 'design':
+      return `/designs/${encodeURIComponent(route.id)}`;
+  }
+};
@@ -0,0 +1,77 @@
+import type { CanvasSize } from './canvasFormats';
+import type { Bounds } from './geometry';
+import { getSafeArea } from './layoutWarnings';
+
+export type SafeZoneId = 'margins' | 'profileGrid' | 'storyUi' | 'thumbnailTimestamp';
+
+// Part of the canvas a platform crops away or covers with its own interface, in canvas pixels.
+export interface CoveredRegion {
+  bounds: Bounds;
+  label: string;
+}
+
+export interface SafeZone {
+  id: SafeZoneId;
+  label: string;
+  description: string;
+  getCoveredRegions: (canvas: CanvasSize) => CoveredRegion[];
+}
+
+// Strips cut off when the canvas is center-cropped to `ratio` (width / height).
+const cropToRatio = ({ width, height }: CanvasSize, ratio: number, label: string): CoveredRegion[] => {
+  if (width / height > ratio) {
+    const strip = (width - height * ratio) / 2;
+    return [
+      { bounds: { left: 0, top: 0, width: strip, height }, label },
+      { bounds: { left: width - strip, top: 0, width: strip, height }, label },
+    ];
+  }
+  const strip = (height - width / ratio) / 2;
+  if (strip <= 0) return [];
+  return [
+    { bounds: { left: 0, top: 0, width, height: strip }, label },
+    { bounds: { left: 0, top: height - strip, width, height: strip }, label },
+  ];
+};
+
+// Proportions follow the platforms' published guidance at the time of writing; they shift now and then.
+export const SAFE_ZONES: SafeZone[] = [
+  {
+    id: 'margins',
+    label: 'Edge margin',
+    description: 'The border layout warnings check against',
+    getCoveredRegions: (canvas) => {
+      const safe = getSafeArea(canvas);
+      const label = 'Margin';
+      return [
+        { bounds: { left: 0, top: 0, width: canvas.width, height: safe.top }, label },
+        { bounds: { left: 0, top: safe.top + safe.height, width: canvas.width, height: safe.top }, label },
+        { bounds: { left: 0, top: safe.top, width: safe.left, height: safe.height }, label },
+        { bounds: { left: safe.left + safe.width, top: safe.top, width: safe.left, height: safe.height }, label },
+      ];
+    },
+  },
+  {
+    id: 'profileGrid',
+    label: 'Profile grid',
+    description: 'Instagram profile grids show posts cropped to 3:4',
+    getCoveredRegions: (canvas) => cropToRatio(canvas, 3 / 4, 'Cropped in grid'),
+  },
+  {
+    id: 'storyUi',
+    label: 'Story UI',
+    description: 'Story headers and reply bars cover the top and bottom',
+    getCoveredRegions: ({ width, height }) => [
+      { bounds: { left: 0, top: 0, width, height: height * 0.14 }, label: 'Profile and progress bar' },
+      { bounds: { left: 0, top: height * 0.8, width, height: height * 0.2 }, label: 'Reply bar' },
+    ],
+  },
+  {
+    id: 'thumbnailTimestamp',
+    label: 'Video timestamp',
+    description: 'Video thumbnails carry the duration in the bottom-right corner',
+    getCoveredRegions: ({ width, height }) => [
+      { bounds: { left: width * 0.82, top: height * 0.85, width: width * 0.16, height: height * 0.12 }, label: '12:34' },
+    ],
+  },
+];
@@ -0,0 +1,89 @@
+import { DesignParseError, parseDesign, serializeDesign, type Design } from './design';
+import type { Layer } from './layers';
+
+// Images bigger than this are left out of links, which have to stay short enough to paste anywhere.
+const MAX_INLINE_IMAGE_LENGTH = 4000;
+
+// Keeps an image layer's place and size in a shared link whose image was too big to include.
+export const IMAGE_PLACEHOLDER =
+  'data:image/svg+xml,' +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 100 100" preserveAspectRatio="none">' +
+      '<rect width="100" height="100" fill="#CBD5E1"/>' +
+      '<path d="M20 75 40 50 55 65 65 55 80 75Z" fill="#94A3B8"/>' +
+      '<circle cx="68" cy="32" r="7" fill="#94A3B8"/>' +
+    '</svg>'
+  );
+
+export interface SharedDesign {
+  name: string;
+  design: Design;
+  // Whether any images had to be dropped or swapped for placeholders.
+  isPartial: boolean;
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const compress = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (bytes: Uint8Array<ArrayBuffer>): Promise<string> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const isInlineable = (src: string) => src.length <= MAX_INLINE_IMAGE_LENGTH;
+
+// Template images are dropped, leaving the background fill, and large image layers become placeholders.
+const stripLargeImages = (design: Design): { design: Design; isPartial: boolean } => {
+  let isPartial = false;
+  const stripLayers = (layers: Layer[]) => layers.map(layer => {
+    if (layer.type !== 'image' || isInlineable(layer.src)) return layer;
+    isPartial = true;
+    return { ...layer, src: IMAGE_PLACEHOLDER };
+  });
+  const pages = design.pages.map(page => {
+    const dropTemplate = page.template !== undefined && !isInlineable(page.template);
+    if (dropTemplate) isPartial = true;
+    return { ...page, template: dropTemplate ? undefined : page.template, layers: stripLayers(page.layers) };
+  });
+  return { design: { ...design, pages, masterLayers: stripLayers(design.masterLayers) }, isPartial };
+};
+
+// A link that opens a copy of the design in the editor. Everything lives in the hash, which never
+// reaches the server, so it works on any static host.
+export const createShareLink = async (design: Design, name: string): Promise<{ url: string; isPartial: boolean }> => {
+  const stripped = stripLargeImages(design);
+  const params = new URLSearchParams({ name, design: toBase64Url(await compress(serializeDesign(stripped.design))) });
+  return { url: `${window.location.origin}/editor#${params}`, isPartial: stripped.isPartial };
+};
+
+export const hasSharedDesign = (hash: string): boolean => new URLSearchParams(hash.slice(1)).has('design');
+
+export const readShareLink = async (hash: string): Promise<SharedDesign> => {
+  const params = new URLSearchParams(hash.slice(1));
+  const encoded = params.get('design');
+  if (!encoded) throw new DesignParseError('The link does not contain a design');
+
+  let json: string;
+  try {
+    json = await decompress(fromBase64Url(encoded));
+  } catch {
+    throw new DesignParseError('The link is incomplete or damaged');
+  }
+  const design = parseDesign(json);
+  const isPartial = [...design.pages.flatMap(page => page.layers), ...design.masterLayers]
+    .some(layer => layer.type === 'image' && layer.src === IMAGE_PLACEHOLDER);
+  return { name: params.get('name') || '', design, isPartial };
+};
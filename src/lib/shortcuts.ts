@@ -0,0 +1,59 @@
+export interface Shortcut {
+  // Keys pressed together; "Mod" is Ctrl, or ⌘ on Apple devices.
+  keys: string[];
+  description: string;
+}
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: Shortcut[];
+}
+
+export const IS_APPLE = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+export const formatKey = (key: string): string => (key === 'Mod' ? (IS_APPLE ? '⌘' : 'Ctrl') : key);
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  {
+    title: 'Selection',
+    shortcuts: [
+      { keys: ['Tab'], description: 'Select the next layer' },
+      { keys: ['Shift', 'Tab'], description: 'Select the previous layer' },
+      { keys: ['Enter'], description: 'Select the focused layer' },
+      { keys: ['Shift', 'Click'], description: 'Add to or remove from the selection' },
+      { keys: ['Shift', 'Enter'], description: 'Add the focused layer to the selection, or remove it' },
+      { keys: ['Mod', 'A'], description: 'Select all' },
+      { keys: ['Esc'], description: 'Deselect' },
+    ],
+  },
+  {
+    title: 'Editing',
+    shortcuts: [
+      { keys: ['Arrow keys'], description: 'Nudge by 1px' },
+      { keys: ['Shift', 'Arrow keys'], description: 'Nudge by 10px' },
+      { keys: ['Delete'], description: 'Delete the selection' },
+      { keys: ['Mod', 'D'], description: 'Duplicate' },
+      { keys: ['Mod', 'C'], description: 'Copy' },
+      { keys: ['Mod', 'X'], description: 'Cut' },
+      { keys: ['Mod', 'V'], description: 'Paste, also into another design or tab' },
+      { keys: ['Mod', 'G'], description: 'Group' },
+      { keys: ['Mod', 'Shift', 'G'], description: 'Ungroup' },
+    ],
+  },
+  {
+    title: 'History',
+    shortcuts: [
+      { keys: ['Mod', 'Z'], description: 'Undo' },
+      { keys: ['Mod', 'Shift', 'Z'], description: 'Redo' },
+      { keys: ['Mod', 'Y'], description: 'Redo' },
+    ],
+  },
+  {
+    title: 'Help',
+    shortcuts: [{ keys: ['?'], description: 'Show this list' }],
+  },
+];
+
+// Shortcuts stay off while the user is typing, so fields keep their native keys.
+export const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof Element && target.closest('input, textarea, select, [contenteditable="true"]') !== null;
@@ -0,0 +1,53 @@
+import { parseDesign, type Design } from './design';
+import announcement from '../templates/announcement.json?raw';
+import eventFlyer from '../templates/event-flyer.json?raw';
+import eventFlyerBackground from '../templates/assets/event-flyer-background.svg';
+import newArrivalStory from '../templates/new-arrival-story.json?raw';
+import quoteCard from '../templates/quote-card.json?raw';
+import saleBanner from '../templates/sale-banner.json?raw';
+import tipCard from '../templates/tip-card.json?raw';
+
+export interface StarterTemplate {
+  id: string;
+  name: string;
+  design: Design;
+}
+
+// Starter layouts are ordinary design documents, kept as JSON in src/templates and read through the
+// same parser as opened files. A bundled background image is referenced by URL until it is picked.
+const starter = (id: string, name: string, json: string, image?: string): StarterTemplate => {
+  const design = parseDesign(json);
+  return {
+    id,
+    name,
+    design: image ? { ...design, pages: design.pages.map(page => ({ ...page, template: image })) } : design,
+  };
+};
+
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  starter('quote-card', 'Quote card', quoteCard),
+  starter('announcement', 'Announcement', announcement),
+  starter('sale-banner', 'Sale banner', saleBanner),
+  starter('event-flyer', 'Event flyer', eventFlyer, eventFlyerBackground),
+  starter('new-arrival-story', 'New arrival story', newArrivalStory),
+  starter('tip-card', 'Tip card', tipCard),
+];
+
+const toDataUrl = async (url: string): Promise<string> => {
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// The design to open for a template. The image is inlined like an uploaded one, so saved copies
+// don't depend on the URL of a particular build.
+export const instantiateTemplate = async ({ design }: StarterTemplate): Promise<Design> => ({
+  ...design,
+  pages: await Promise.all(design.pages.map(async page => (
+    page.template ? { ...page, template: await toDataUrl(page.template) } : page
+  ))),
+});
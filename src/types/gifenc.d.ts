@@ -0,0 +1,23 @@
+// gifenc ships without type declarations; these cover the parts the editor uses.
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export interface GIFFrameOptions {
+    palette?: Palette;
+    // In milliseconds.
+    delay?: number;
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+  }
+
+  export interface GIFStream {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: GIFFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): GIFStream;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: { format?: string }): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: string): Uint8Array;
+}